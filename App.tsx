@@ -1,5 +1,5 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Layout } from './components/Layout';
 import { PromptBuilder } from './components/PromptBuilder';
 import { WorkflowCanvas } from './components/WorkflowCanvas';
@@ -12,21 +12,24 @@ import { WorkflowList } from './components/WorkflowList';
 import { AuthPage } from './components/AuthPage';
 import { RunModal } from './components/RunModal';
 import { ShortcutsModal } from './components/ShortcutsModal';
-import { Workflow, PromptResponse, Template, WorkflowNode, RunLog, WorkflowEdge } from './types';
-import { Check, Plus, Loader2, RotateCcw, LogOut, Sparkles, History, Clock, FileQuestion } from 'lucide-react';
-import { executeWorkflow } from './lib/workflowEngine';
+import { Workflow, PromptResponse, Template, WorkflowNode, RunLog, WorkflowEdge, RunSignal } from './types';
+import { Check, Plus, Loader2, RotateCcw, LogOut, Sparkles, History, Clock, FileQuestion, Timer, Ban, Unplug, Hourglass } from 'lucide-react';
+import { executeWorkflow, ExecutionOptions, isRunOrphaned, isWaitOver, signalRun, cancelWaitingRun, CHECKPOINT_INTERVAL_MS } from './lib/workflowEngine';
 import { AutomatorProvider, useAutomator } from './store/AutomatorContext';
 import { ToastProvider, useToast } from './store/ToastContext';
 import { AuthProvider, useAuth } from './store/AuthContext';
 import { optimizeWorkflow, explainWorkflow } from './services/geminiService';
 import { validateWorkflow } from './lib/workflowUtils';
+import { parseDuration } from './lib/duration';
+import { browserEnvironment } from './lib/browserEnvironment';
+import { collectDueRuns, scheduledRunInput, SCHEDULER_INTERVAL_MS } from './lib/scheduler';
 
 function AutomatorDashboard() {
   const [activeView, setActiveView] = useState('dashboard');
   const { 
     workflows, runs, integrations, 
     addWorkflow, updateWorkflow, deleteWorkflow,
-    toggleIntegration, updateRun, resetData 
+    toggleIntegration, updateRun, claimRun, resetData, isLoading
   } = useAutomator();
   const { addToast } = useToast();
   const { signOut, user, isGuest } = useAuth();
@@ -79,12 +82,18 @@ function AutomatorDashboard() {
     if (!currentWorkflow) return;
     
     // Validation
-    const validation = validateWorkflow(currentWorkflow.nodes, currentWorkflow.edges);
+    const validation = validateWorkflow(currentWorkflow.nodes, currentWorkflow.edges, { workflowId: currentWorkflow.id, workflows });
     if (!validation.isValid) {
         addToast('error', `Validation Failed: ${validation.errors[0]}`, 4000);
         return;
     }
 
+    const workflowTimeout = currentWorkflow.settings?.timeout;
+    if (workflowTimeout && parseDuration(workflowTimeout) === null) {
+        addToast('error', `Validation Failed: Workflow timeout '${workflowTimeout}' is not a valid duration`, 4000);
+        return;
+    }
+
     if (currentWorkflow.id) {
         // Edit Mode: Update existing
         const existing = workflows.find(w => w.id === currentWorkflow.id);
@@ -95,6 +104,7 @@ function AutomatorDashboard() {
                 description: currentWorkflow.explanation,
                 nodes: currentWorkflow.nodes,
                 edges: currentWorkflow.edges,
+                settings: currentWorkflow.settings,
             });
             addToast('success', 'Workflow updated successfully');
         }
@@ -108,11 +118,14 @@ function AutomatorDashboard() {
             createdAt: new Date().toISOString(),
             nodes: currentWorkflow.nodes,
             edges: currentWorkflow.edges,
+            settings: currentWorkflow.settings,
             stats: { runs: 0, successRate: 100 }
         };
         addWorkflow(newWorkflow);
         addToast('success', 'New workflow created and activated');
     }
+    // Saved anyway: empty required settings don't stop a run, but the step may not do what was meant
+    if (validation.warnings.length) addToast('info', `Check settings: ${validation.warnings[0]}`, 5000);
     
     setActiveView('workflows');
     setCurrentWorkflow(null);
@@ -160,6 +173,7 @@ function AutomatorDashboard() {
                   createdAt: new Date().toISOString(),
                   nodes: data.nodes,
                   edges: data.edges,
+                  settings: data.settings,
                   stats: { runs: 0, successRate: 0 }
               };
               
@@ -172,7 +186,8 @@ function AutomatorDashboard() {
                   name: newWorkflow.name,
                   nodes: newWorkflow.nodes,
                   edges: newWorkflow.edges,
-                  explanation: newWorkflow.description
+                  explanation: newWorkflow.description,
+                  settings: newWorkflow.settings
               });
               setActiveView('builder');
 
@@ -216,32 +231,48 @@ function AutomatorDashboard() {
     if (!workflowToRun) return;
 
     // Validation before run
-    const validation = validateWorkflow(workflowToRun.nodes, workflowToRun.edges);
+    const validation = validateWorkflow(workflowToRun.nodes, workflowToRun.edges, { workflowId: workflowToRun.id, workflows });
     if (!validation.isValid) {
         addToast('error', `Cannot run: ${validation.errors[0]}`);
         return;
     }
 
     addToast('loading', `Starting ${workflowToRun.name}...`, 2000);
+    await runWorkflow(workflowToRun, payload);
+  };
 
+  // Shared by manual runs and retries. onStart receives the id of the new run.
+  const runWorkflow = async (workflow: Workflow, payload: any, resume?: ExecutionOptions['resume'], onStart?: (runId: string) => void) => {
+    let started = false;
     try {
         await executeWorkflow(
-            workflowToRun.id,
-            workflowToRun.name,
-            workflowToRun.nodes,
-            workflowToRun.edges,
+            workflow.id,
+            workflow.name,
+            workflow.nodes,
+            workflow.edges,
             (updatedRunLog) => {
                 // Update runs state in real-time via context
                 updateRun(updatedRunLog);
+                if (!started) {
+                  started = true;
+                  onStart?.(updatedRunLog.id);
+                }
                 
-                // Handle Completion Toasts
+                // Handle Completion Toasts (sub-workflow runs report through their parent)
+                if (updatedRunLog.parentRun) return;
                 if (updatedRunLog.status === 'success') {
-                  addToast('success', `Run completed: ${workflowToRun.name}`, 3000);
+                  addToast('success', `Run completed: ${workflow.name}`, 3000);
                 } else if (updatedRunLog.status === 'failed') {
-                  addToast('error', `Run failed: ${workflowToRun.name}`, 5000);
+                  addToast('error', `Run failed: ${workflow.name}`, 5000);
+                } else if (updatedRunLog.status === 'cancelled') {
+                  addToast('info', `Run cancelled: ${workflow.name}`, 3000);
+                } else if (updatedRunLog.status === 'waiting') {
+                  const isApproval = updatedRunLog.steps.some(s => s.status === 'waiting' && s.waitingFor?.kind === 'approval');
+                  addToast('info', `${isApproval ? 'Run waiting for approval' : 'Run paused until its delay ends'}: ${workflow.name}`, 4000);
                 }
             },
-            payload
+            payload,
+            { timeout: workflow.settings?.timeout, resume, loadWorkflow: (id) => workflows.find(w => w.id === id), env: browserEnvironment }
         );
     } catch (e) {
         console.error("Workflow failed to start", e);
@@ -249,10 +280,120 @@ function AutomatorDashboard() {
     }
   };
 
+  // Recover runs left 'running' by a tab that closed mid-execution: continue them from their last
+  // checkpoint, or mark them interrupted when that isn't possible or the workflow opts out.
+  // Runs waiting for an approval or a delay are picked up here as well once their wait is over.
+  useEffect(() => {
+    if (isLoading) return;
+    const recoverOrphanedRuns = () => {
+      runs.filter(run => isRunOrphaned(run)).forEach(run => {
+        const workflow = workflows.find(w => w.id === run.workflowId);
+        const stopped = `Execution stopped when its tab closed (last checkpoint ${new Date(run.checkpointAt || run.startedAt).toLocaleString()}).`;
+        const reason = run.parentRun ? `${stopped} Its parent run starts the sub-workflow again when it resumes.`
+          : !workflow ? `${stopped} The workflow no longer exists, so it cannot be resumed.`
+          : workflow.settings?.recovery === 'interrupt' ? stopped
+          : !validateWorkflow(workflow.nodes, workflow.edges, { workflowId: workflow.id, workflows }).isValid ? `${stopped} The workflow is no longer valid, so it cannot be resumed.`
+          : null;
+
+        if (!workflow || reason) {
+          updateRun({ ...run, status: 'interrupted', error: reason || stopped });
+          return;
+        }
+        claimRun(run).then(claimed => {
+          if (!claimed) return; // Another tab resumes it
+          addToast('info', `Resuming interrupted run of ${workflow.name}`, 3000);
+          runWorkflow(workflow, run.input ?? run.steps.find(s => !s.parentStepId)?.input, { run: claimed, inPlace: true });
+        });
+      });
+
+      // Waiting runs continue in place once a decision was recorded, an approval expired or a delay
+      // ended. Runs started by a local server are continued by that server.
+      runs.filter(run => !run.host && isWaitOver(run)).forEach(run => {
+        const workflow = workflows.find(w => w.id === run.workflowId);
+        const reason = !workflow ? 'The workflow no longer exists, so the run cannot continue.'
+          : !validateWorkflow(workflow.nodes, workflow.edges, { workflowId: workflow.id, workflows }).isValid ? 'The workflow is no longer valid, so the run cannot continue.'
+          : null;
+        if (!workflow || reason) {
+          updateRun(cancelWaitingRun(run, reason || ''));
+          return;
+        }
+        // Every open tab sees the wait end; the one whose claim holds continues the run
+        claimRun(run).then(claimed => {
+          if (!claimed) return;
+          addToast('info', `Continuing ${workflow.name}`, 3000);
+          runWorkflow(workflow, run.input ?? run.steps.find(s => !s.parentStepId)?.input, { run: claimed, inPlace: true });
+        });
+      });
+    };
+    recoverOrphanedRuns();
+    // Checkpoints of runs executing elsewhere go stale over time, so keep checking
+    const timer = setInterval(recoverOrphanedRuns, CHECKPOINT_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isLoading, runs, workflows]);
+
+  // Start runs of active workflows whose schedule triggers came due, including missed fire times
+  // their catch-up policy asks for
+  useEffect(() => {
+    if (isLoading) return;
+    const fireSchedules = () => {
+      const now = new Date();
+      collectDueRuns(workflows, now).forEach(due => {
+        const validation = validateWorkflow(due.workflow.nodes, due.workflow.edges, { workflowId: due.workflow.id, workflows });
+        if (!validation.isValid) {
+          addToast('error', `Scheduled run of ${due.workflow.name} skipped: ${validation.errors[0]}`, 5000);
+          return;
+        }
+        addToast('info', due.missed
+          ? `Catching up missed run of ${due.workflow.name} (due ${due.scheduledFor.toLocaleString()})`
+          : `Scheduled run of ${due.workflow.name} started`, 3000);
+        runWorkflow(due.workflow, scheduledRunInput(due, now));
+      });
+    };
+    fireSchedules();
+    const timer = setInterval(fireSchedules, SCHEDULER_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isLoading, workflows]);
+
+  // Approve/Reject from the run details. Recording the decision is enough: the loop above resumes the run.
+  const handleSignalRun = (runId: string, stepId: string, signal: Omit<RunSignal, 'receivedAt'>) => {
+    const run = runs.find(r => r.id === runId);
+    if (!run) return;
+    try {
+        updateRun(signalRun(run, stepId, signal));
+    } catch (e: any) {
+        addToast('error', e.message);
+    }
+  };
+
+  // Re-run a finished run from one of its steps, reusing the outputs recorded before it
+  const handleRetryFromStep = async (runId: string, nodeId: string) => {
+    const run = runs.find(r => r.id === runId);
+    const workflow = workflows.find(w => w.id === run?.workflowId);
+    if (!run || !workflow) {
+        addToast('error', 'The workflow for this run no longer exists.');
+        return;
+    }
+    if (!workflow.nodes.some(n => n.id === nodeId)) {
+        addToast('error', 'This step was removed from the workflow and cannot be retried.');
+        return;
+    }
+
+    const validation = validateWorkflow(workflow.nodes, workflow.edges, { workflowId: workflow.id, workflows });
+    if (!validation.isValid) {
+        addToast('error', `Cannot run: ${validation.errors[0]}`);
+        return;
+    }
+
+    // The first top-level step received the original trigger payload
+    const payload = run.steps.find(s => !s.parentStepId)?.input;
+    addToast('loading', `Retrying ${workflow.name}...`, 2000);
+    await runWorkflow(workflow, payload, { run, fromNodeId: nodeId }, setSelectedRunId);
+  };
+
   // Handle run inside builder (Simulate/Test)
   const handleTestRunInBuilder = () => {
       if (currentWorkflow) {
-          const validation = validateWorkflow(currentWorkflow.nodes, currentWorkflow.edges);
+          const validation = validateWorkflow(currentWorkflow.nodes, currentWorkflow.edges, { workflowId: currentWorkflow.id, workflows });
           if (!validation.isValid) {
                 addToast('error', `Cannot run: ${validation.errors[0]}`);
                 return;
@@ -267,6 +408,7 @@ function AutomatorDashboard() {
               createdAt: new Date().toISOString(),
               nodes: currentWorkflow.nodes,
               edges: currentWorkflow.edges,
+              settings: currentWorkflow.settings,
               stats: { runs: 0, successRate: 0 }
           };
           handleInitiateRun(tempWf);
@@ -369,7 +511,8 @@ function AutomatorDashboard() {
                         name: wf.name,
                         nodes: wf.nodes,
                         edges: wf.edges,
-                        explanation: wf.description
+                        explanation: wf.description,
+                        settings: wf.settings
                     });
                     setActiveView('builder');
                 }}
@@ -434,9 +577,15 @@ function AutomatorDashboard() {
                                      <td className="px-6 py-4">
                                          <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
                                              run.status === 'success' ? 'bg-emerald-500/10 text-emerald-400' : 
-                                             run.status === 'failed' ? 'bg-red-500/10 text-red-400' : 'bg-blue-500/10 text-blue-400 animate-pulse'
+                                             run.status === 'failed' ? 'bg-red-500/10 text-red-400' :
+                                             run.status === 'cancelled' ? 'bg-amber-500/10 text-amber-400' :
+                                             run.status === 'interrupted' ? 'bg-orange-500/10 text-orange-400' :
+                                             run.status === 'waiting' ? 'bg-yellow-500/10 text-yellow-400' : 'bg-blue-500/10 text-blue-400 animate-pulse'
                                          }`}>
                                              {run.status === 'success' && <Check size={12} className="mr-1" />}
+                                             {run.status === 'cancelled' && <Ban size={12} className="mr-1" />}
+                                             {run.status === 'interrupted' && <Unplug size={12} className="mr-1" />}
+                                             {run.status === 'waiting' && <Hourglass size={12} className="mr-1" />}
                                              {run.status === 'running' && <Loader2 size={12} className="mr-1 animate-spin" />}
                                              {run.status}
                                          </span>
@@ -467,6 +616,9 @@ function AutomatorDashboard() {
             <RunDetail 
                 runId={selectedRunId} 
                 onBack={() => setActiveView('runs')} 
+                onRetryFromStep={handleRetryFromStep}
+                onViewRun={setSelectedRunId}
+                onSignal={handleSignalRun}
             />
           ) : (
              setActiveView('runs'), null
@@ -544,6 +696,37 @@ function AutomatorDashboard() {
                         <span>Optimize</span>
                      </button>
                      
+                     <div
+                        className="flex items-center space-x-1.5 bg-slate-800 border border-slate-700 px-2 py-1 rounded-lg text-xs"
+                        title="Workflow timeout (e.g. 30s, 5m, 1h). The run is cancelled once it is exceeded."
+                     >
+                        <Timer size={12} className="text-slate-400" />
+                        <input
+                            value={currentWorkflow.settings?.timeout || ''}
+                            onChange={(e) => setCurrentWorkflow({
+                                ...currentWorkflow,
+                                settings: { ...currentWorkflow.settings, timeout: e.target.value || undefined }
+                            })}
+                            placeholder="No timeout"
+                            className={`w-20 bg-transparent font-mono focus:outline-none placeholder:text-slate-600 ${
+                                currentWorkflow.settings?.timeout && parseDuration(currentWorkflow.settings.timeout) === null ? 'text-red-400' : 'text-slate-300'
+                            }`}
+                        />
+                     </div>
+
+                     <select
+                        value={currentWorkflow.settings?.recovery || 'resume'}
+                        onChange={(e) => setCurrentWorkflow({
+                            ...currentWorkflow,
+                            settings: { ...currentWorkflow.settings, recovery: e.target.value === 'interrupt' ? 'interrupt' : undefined }
+                        })}
+                        className="bg-slate-800 border border-slate-700 text-slate-300 px-2 py-1.5 rounded-lg text-xs focus:outline-none"
+                        title="What happens to a run when the tab executing it closes"
+                     >
+                        <option value="resume">If interrupted: resume</option>
+                        <option value="interrupt">If interrupted: stop</option>
+                     </select>
+
                      <div className="text-xs font-mono text-slate-500 bg-slate-900 px-2 py-1 rounded border border-slate-800">
                         {currentWorkflow.id ? 'Active Mode' : 'Draft Mode'}
                     </div>
@@ -558,6 +741,7 @@ function AutomatorDashboard() {
                     onUpdateNodes={handleUpdateNodes}
                     onUpdateEdges={handleUpdateEdges}
                     activeRun={currentActiveRun}
+                    workflowId={currentWorkflow.id}
                 />
             </div>
           </div>
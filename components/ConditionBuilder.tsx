@@ -0,0 +1,137 @@
+import React from 'react';
+import { Plus, Trash2, ListTree } from 'lucide-react';
+import { ConditionGroup, ConditionRule, ConditionOperator } from '../types';
+import { CONDITION_OPERATORS, isConditionGroup, createConditionRule, createConditionGroup } from '../lib/conditions';
+
+interface ConditionBuilderProps {
+  group: ConditionGroup;
+  onChange: (group: ConditionGroup) => void;
+  variables?: string[]; // Suggestions for the variable inputs
+}
+
+const MAX_DEPTH = 3;
+
+const inputClass = 'bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-brand-500 placeholder-slate-600 min-w-0';
+
+interface RuleRowProps {
+  rule: ConditionRule;
+  onChange: (rule: ConditionRule) => void;
+  onRemove: () => void;
+  listId?: string;
+}
+
+const RuleRow: React.FC<RuleRowProps> = ({ rule, onChange, onRemove, listId }) => {
+  const needsValue = CONDITION_OPERATORS.find(o => o.value === rule.operator)?.needsValue ?? true;
+  return (
+    <div className="flex items-center gap-1.5">
+      <input
+        value={rule.variable}
+        onChange={(e) => onChange({ ...rule, variable: e.target.value })}
+        placeholder="variable"
+        list={listId}
+        className={`${inputClass} flex-1 font-mono`}
+      />
+      <select
+        value={rule.operator}
+        onChange={(e) => onChange({ ...rule, operator: e.target.value as ConditionOperator })}
+        className={`${inputClass} w-28`}
+      >
+        {CONDITION_OPERATORS.map(op => <option key={op.value} value={op.value}>{op.label}</option>)}
+      </select>
+      {needsValue ? (
+        <input
+          value={rule.value || ''}
+          onChange={(e) => onChange({ ...rule, value: e.target.value })}
+          placeholder={rule.operator === 'in' || rule.operator === 'not_in' ? 'a, b, c' : rule.operator === 'before' || rule.operator === 'after' ? 'now or 2024-01-31' : 'value'}
+          className={`${inputClass} flex-1`}
+        />
+      ) : <div className="flex-1" />}
+      <button onClick={onRemove} className="text-slate-600 hover:text-red-400 p-1" title="Remove rule">
+        <Trash2 size={12} />
+      </button>
+    </div>
+  );
+};
+
+interface GroupEditorProps {
+  group: ConditionGroup;
+  onChange: (group: ConditionGroup) => void;
+  onRemove?: () => void;
+  depth: number;
+  listId?: string;
+}
+
+const GroupEditor: React.FC<GroupEditorProps> = ({ group, onChange, onRemove, depth, listId }) => {
+  const updateItem = (index: number, item: ConditionRule | ConditionGroup) =>
+    onChange({ ...group, rules: group.rules.map((r, i) => i === index ? item : r) });
+  const removeItem = (index: number) =>
+    onChange({ ...group, rules: group.rules.filter((_, i) => i !== index) });
+
+  return (
+    <div className={`space-y-2 ${depth > 0 ? 'border-l-2 border-slate-700 pl-3 py-1' : ''}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex bg-slate-900 rounded p-0.5 border border-slate-800 text-[10px] font-bold">
+          {(['and', 'or'] as const).map(combinator => (
+            <button
+              key={combinator}
+              onClick={() => onChange({ ...group, combinator })}
+              className={`px-2 py-0.5 rounded ${group.combinator === combinator ? 'bg-brand-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              {combinator.toUpperCase()}
+            </button>
+          ))}
+        </div>
+        <span className="text-[10px] text-slate-500 flex-1 ml-2">
+          {group.combinator === 'and' ? 'All of these must match' : 'Any of these may match'}
+        </span>
+        {onRemove && (
+          <button onClick={onRemove} className="text-slate-600 hover:text-red-400 p-1" title="Remove group">
+            <Trash2 size={12} />
+          </button>
+        )}
+      </div>
+
+      {group.rules.map((item, index) => isConditionGroup(item) ? (
+        <GroupEditor
+          key={item.id}
+          group={item}
+          onChange={(g) => updateItem(index, g)}
+          onRemove={() => removeItem(index)}
+          depth={depth + 1}
+          listId={listId}
+        />
+      ) : (
+        <RuleRow key={item.id} rule={item} onChange={(r) => updateItem(index, r)} onRemove={() => removeItem(index)} listId={listId} />
+      ))}
+
+      <div className="flex gap-3 text-[10px] font-medium">
+        <button onClick={() => onChange({ ...group, rules: [...group.rules, createConditionRule()] })} className="flex items-center gap-1 text-brand-400 hover:text-brand-300">
+          <Plus size={10} /> Rule
+        </button>
+        {depth < MAX_DEPTH - 1 && (
+          <button
+            onClick={() => onChange({ ...group, rules: [...group.rules, createConditionGroup(group.combinator === 'and' ? 'or' : 'and')] })}
+            className="flex items-center gap-1 text-slate-400 hover:text-slate-200"
+          >
+            <ListTree size={10} /> Group
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Visual editor for a CONDITION node's AND/OR rule tree
+export const ConditionBuilder: React.FC<ConditionBuilderProps> = ({ group, onChange, variables = [] }) => {
+  const listId = variables.length > 0 ? 'condition-variables' : undefined;
+  return (
+    <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-3">
+      <GroupEditor group={group} onChange={onChange} depth={0} listId={listId} />
+      {listId && (
+        <datalist id={listId}>
+          {variables.map(v => <option key={v} value={v} />)}
+        </datalist>
+      )}
+    </div>
+  );
+};
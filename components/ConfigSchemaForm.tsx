@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Eye, EyeOff } from 'lucide-react';
+import { ConfigSchema, FieldSchema, validateConfig } from '../lib/connectorSdk';
+import { TemplateInput } from './TemplateInput';
+
+interface ConfigSchemaFormProps {
+  schema: ConfigSchema;
+  config: Record<string, any>;
+  onChange: (key: string, value: any) => void; // undefined clears the field
+}
+
+const inputClass = 'w-full bg-slate-950 border rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-brand-500 transition-colors placeholder-slate-600';
+
+const getPlaceholder = (field: FieldSchema) =>
+  field.examples?.length ? String(field.examples[0]) : field.default !== undefined ? String(field.default) : '';
+
+// Text as typed, except numbers and JSON objects and lists, which are stored parsed once they are valid
+const parseInput = (field: FieldSchema, text: string): any => {
+  if (!text.trim()) return undefined;
+  if (text.includes('{{')) return text;
+  // Kept as text until it reads back the same, so '1.' can still become '1.5'
+  if (field.type === 'number') return String(Number(text)) === text.trim() ? Number(text) : text;
+  if (field.type === 'object' || field.type === 'array') {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+  return text;
+};
+
+const toText = (value: any) => value === undefined || value === null ? '' : typeof value === 'object' ? JSON.stringify(value, null, 2) : String(value);
+
+// The config form of a connector operation, one input per property of its schema
+export const ConfigSchemaForm: React.FC<ConfigSchemaFormProps> = ({ schema, config, onChange }) => {
+  const [revealed, setRevealed] = useState<Record<string, boolean>>({});
+  const problems = validateConfig(schema, config);
+  const entries: [string, FieldSchema][] = Object.entries(schema.properties);
+
+  if (entries.length === 0) {
+    return <p className="text-[10px] text-slate-500">This step has no settings.</p>;
+  }
+
+  const renderInput = (key: string, field: FieldSchema, invalid: boolean) => {
+    const value = config[key];
+    const border = invalid ? 'border-red-500/60' : 'border-slate-700';
+
+    if (field.enum) {
+      return (
+        <select
+          value={toText(value ?? field.default)}
+          onChange={(e) => onChange(key, field.enum!.find(option => String(option) === e.target.value))}
+          className={`${inputClass} ${border}`}
+        >
+          <option value="" disabled>Select {field.title || key}</option>
+          {field.enum.map(option => <option key={String(option)} value={String(option)}>{String(option)}</option>)}
+        </select>
+      );
+    }
+    if (field.type === 'boolean') {
+      return (
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          <input
+            type="checkbox"
+            checked={String(value ?? field.default) === 'true'}
+            onChange={(e) => onChange(key, e.target.checked)}
+            className="accent-brand-500"
+          />
+          {field.title || key}
+        </label>
+      );
+    }
+    if (field.format === 'multiline' || field.format === 'json' || field.type === 'object' || field.type === 'array') {
+      const isJson = field.format !== 'multiline';
+      return (
+        <TemplateInput
+          multiline
+          value={toText(value)}
+          onChange={(text) => onChange(key, parseInput(field, text))}
+          placeholder={getPlaceholder(field)}
+          invalid={invalid}
+          className={`resize-none ${isJson ? 'font-mono text-xs' : ''}`}
+        />
+      );
+    }
+    if (field.secret) {
+      return (
+        <div className="relative">
+          <input
+            type={revealed[key] ? 'text' : 'password'}
+            value={toText(value)}
+            onChange={(e) => onChange(key, parseInput(field, e.target.value))}
+            placeholder={getPlaceholder(field)}
+            autoComplete="off"
+            className={`${inputClass} ${border} pr-9`}
+          />
+          <button
+            type="button"
+            onClick={() => setRevealed(prev => ({ ...prev, [key]: !prev[key] }))}
+            className="absolute right-2 top-1/2 -translate-y-1/2 text-slate-500 hover:text-white"
+            title={revealed[key] ? 'Hide' : 'Show'}
+          >
+            {revealed[key] ? <EyeOff size={14} /> : <Eye size={14} />}
+          </button>
+        </div>
+      );
+    }
+    return (
+      <TemplateInput
+        value={toText(value)}
+        onChange={(text) => onChange(key, parseInput(field, text))}
+        placeholder={getPlaceholder(field)}
+        invalid={invalid}
+      />
+    );
+  };
+
+  return (
+    <>
+      {entries.map(([key, field]) => {
+        const messages = problems.filter(p => p.field === key).map(p => p.message);
+        const required = schema.required?.includes(key) && field.default === undefined;
+        return (
+          <div key={key}>
+            {field.type !== 'boolean' && (
+              <label className="block text-xs font-medium text-slate-400 mb-1">
+                {field.title || key}
+                {required && <span className="text-red-400 ml-0.5">*</span>}
+              </label>
+            )}
+            {renderInput(key, field, messages.length > 0)}
+            {field.description && <p className="text-[10px] text-slate-500 mt-1">{field.description}</p>}
+            {messages.map(message => <p key={message} className="text-[10px] text-red-400 mt-1">{message}</p>)}
+          </div>
+        );
+      })}
+    </>
+  );
+};
@@ -132,7 +132,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ runs, workflows, onViewRun
                     }`}
                 >
                     <div className="flex items-center space-x-3">
-                    <div className={`w-2 h-2 rounded-full ${run.status === 'success' ? 'bg-emerald-500' : run.status === 'running' ? 'bg-blue-400 animate-pulse' : 'bg-red-500'}`}></div>
+                    <div className={`w-2 h-2 rounded-full ${run.status === 'success' ? 'bg-emerald-500' : run.status === 'running' ? 'bg-blue-400 animate-pulse' : run.status === 'waiting' ? 'bg-yellow-400' : 'bg-red-500'}`}></div>
                     <div>
                         <div className="text-sm font-medium text-slate-200 truncate max-w-[120px]">{run.workflowName}</div>
                         <div className="text-xs text-slate-500">
@@ -144,7 +144,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ runs, workflows, onViewRun
                     </div>
                     </div>
                     <div className="text-right">
-                        <span className={`text-xs px-2 py-0.5 rounded-full ${run.status === 'success' ? 'bg-emerald-500/10 text-emerald-400' : run.status === 'running' ? 'bg-blue-500/10 text-blue-400' : 'bg-red-500/10 text-red-400'}`}>
+                        <span className={`text-xs px-2 py-0.5 rounded-full ${run.status === 'success' ? 'bg-emerald-500/10 text-emerald-400' : run.status === 'running' ? 'bg-blue-500/10 text-blue-400' : run.status === 'waiting' ? 'bg-yellow-500/10 text-yellow-400' : 'bg-red-500/10 text-red-400'}`}>
                             {run.status}
                         </span>
                         {run.status !== 'running' && (
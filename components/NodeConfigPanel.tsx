@@ -1,31 +1,121 @@
 
-import React, { useState, useEffect } from 'react';
-import { X, Save, Trash2, Info, Code, Braces, Play, Loader2, Beaker, Terminal } from 'lucide-react';
-import { WorkflowNode, NodeType } from '../types';
-import { processNode } from '../lib/workflowEngine';
-import { getUpstreamNodes } from '../lib/workflowUtils';
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Save, Trash2, Info, Code, Braces, Play, Loader2, Beaker, Terminal, ShieldAlert, RotateCw, Plus } from 'lucide-react';
+import { WorkflowNode, NodeType, MergeStrategy, ErrorPolicyMode, RetryPolicy, ConditionGroup, ScriptLanguage, ScriptTestCase, ScheduleCatchUp } from '../types';
+import { processNode, getRetryPolicy, DEFAULT_RETRY_POLICY, IN_PROCESS_DELAY_MS } from '../lib/workflowEngine';
+import { browserEnvironment } from '../lib/browserEnvironment';
+import { FILTERS } from '../lib/expressions';
+import { getConditionGroup } from '../lib/conditions';
+import { useAutomator } from '../store/AutomatorContext';
+import { ConditionBuilder } from './ConditionBuilder';
+import { ScriptEditor } from './ScriptEditor';
+import { ScriptTestTable } from './ScriptTestTable';
+import { ConfigSchemaForm } from './ConfigSchemaForm';
+import { TemplateInput, TemplateVariablesContext, InsertTarget } from './TemplateInput';
+import { buildInputType, compileScript } from '../lib/scriptCompiler';
+import { parseDuration, describeDuration } from '../lib/duration';
+import { DELAY_MODES, DEFAULT_BUSINESS_DAYS, computeResumeTime } from '../lib/delay';
+import { validateCron, upcomingCronTimes } from '../lib/cron';
+import { isValidTimeZone } from '../lib/timezone';
+import { DEFAULT_CATCH_UP, MAX_CATCH_UP_RUNS } from '../lib/scheduler';
+import { DEFAULT_WEBHOOK_PORT, WEBHOOK_PATH_PREFIX, WEBHOOK_SIGNATURE_HEADER } from '../lib/webhooks';
+import { KNOWN_ERROR_TYPES } from '../lib/errors';
+import { ResolvedOperation } from '../lib/connectorSdk';
+import { ENGINE_NODE_TYPES } from '../lib/connectors';
+import { getAvailableVariables, listSuggestions, localTestResultStore, testResultKey, StepVariables, VariableSource } from '../lib/variables';
+import { getStepSlugs, MERGE_MODES, MERGE_STRATEGIES, LOOP_BODY_LABEL, ERROR_EDGE_LABEL, SWITCH_DEFAULT_LABEL, APPROVAL_EXPIRED_LABEL, getSwitchCases } from '../lib/workflowUtils';
+
+const WEEKDAY_INITIALS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+// Retry policy fields are edited as raw strings and parsed on save
+interface RetryForm {
+  maximumAttempts: string;
+  initialInterval: string;
+  backoffCoefficient: string;
+  maximumInterval: string;
+  nonRetryableErrorTypes: string;
+}
+
+const toRetryForm = (policy: RetryPolicy): RetryForm => ({
+  maximumAttempts: String(policy.maximumAttempts),
+  initialInterval: policy.initialInterval,
+  backoffCoefficient: String(policy.backoffCoefficient),
+  maximumInterval: policy.maximumInterval || '',
+  nonRetryableErrorTypes: (policy.nonRetryableErrorTypes || []).join(', ')
+});
+
+// e.g. "3 attempts, waiting 1s → 2s between them"
+const describeBackoff = (policy: RetryPolicy) => {
+  const initial = parseDuration(policy.initialInterval);
+  if (initial === null) return 'Invalid initial interval.';
+  if (policy.maximumAttempts <= 1) return 'No retries: the first failure is final.';
+  const max = parseDuration(policy.maximumInterval) ?? Infinity;
+  const waits = Array.from({ length: Math.min(policy.maximumAttempts - 1, 5) }, (_, i) =>
+    describeDuration(Math.min(initial * Math.pow(policy.backoffCoefficient, i), max))
+  );
+  return `${policy.maximumAttempts} attempts, waiting ${waits.join(' → ')}${policy.maximumAttempts > 6 ? ' ...' : ''} between them.`;
+};
+
+const ERROR_POLICY_HINTS: Record<ErrorPolicyMode, string> = {
+  'fail': 'Stop the whole run when this step fails.',
+  'continue': 'Mark the step failed but keep going with its input ({{errorMessage}} is set).',
+  'route': `Follow the '${ERROR_EDGE_LABEL}' path with {{errorMessage}}, {{errorNode}} and {{failedInput}}.`,
+  'fallback': 'Continue as if the step returned the fallback output below.',
+};
+
+const MERGE_STRATEGY_HINTS: Record<MergeStrategy, string> = {
+  'combine': 'Shallow-merge branch outputs; later arrivals overwrite earlier keys.',
+  'prefer-first': 'Shallow-merge branch outputs; the first branch to arrive wins on conflicts.',
+  'deep': 'Recursively merge nested objects from every branch.',
+  'by-branch': 'Keep each branch output under the output key, indexed by source node id.',
+  'append': 'Collect every branch output into an array under the output key.',
+};
+
+const VARIABLE_SOURCE_LABELS: Record<VariableSource, string> = {
+  'schema': 'declared by the connector',
+  'test': 'seen in the last test',
+  'run': 'seen in a recent run',
+};
+
+const CATCH_UP_HINTS: Record<ScheduleCatchUp, string> = {
+  'skip': 'Ignore fire times missed while the app was closed.',
+  'latest': 'Run once for the most recent missed fire time.',
+  'all': `Run once for every missed fire time (at most ${MAX_CATCH_UP_RUNS}).`,
+};
 
 interface NodeConfigPanelProps {
   node: WorkflowNode | null;
   nodes: WorkflowNode[]; // Access to other nodes for variable suggestions
   edges?: any[]; // Pass edges to calculate graph
+  workflowId?: string; // Unset until the workflow is first saved
   onClose: () => void;
   onUpdate: (updatedNode: WorkflowNode) => void;
   onDelete: (nodeId: string) => void;
 }
 
-export const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({ node, nodes, edges = [], onClose, onUpdate, onDelete }) => {
+export const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({ node, nodes, edges = [], workflowId, onClose, onUpdate, onDelete }) => {
+  const { workflows, runs } = useAutomator();
+  // The last focused text field, which receives variables clicked in the list
+  const insertTarget = useRef<InsertTarget | null>(null);
   const [activeTab, setActiveTab] = useState<'config' | 'test'>('config');
   
   // Config State
   const [label, setLabel] = useState('');
   const [service, setService] = useState('');
+  const [operation, setOperation] = useState<string | undefined>(undefined);
   const [type, setType] = useState<NodeType>(NodeType.ACTION);
   const [config, setConfig] = useState<Record<string, any>>({});
   const [mode, setMode] = useState<'form' | 'json' | 'code'>('form');
   const [jsonStr, setJsonStr] = useState('');
   const [codeStr, setCodeStr] = useState('');
+  const [scriptLanguage, setScriptLanguage] = useState<ScriptLanguage>('javascript');
+  const [scriptTests, setScriptTests] = useState<ScriptTestCase[]>([]);
   const [showVars, setShowVars] = useState(false);
+  const [varStyle, setVarStyle] = useState<'flat' | 'step'>('flat');
+  const [retryForm, setRetryForm] = useState<RetryForm>(toRetryForm(DEFAULT_RETRY_POLICY));
+  const [errorMode, setErrorMode] = useState<ErrorPolicyMode>('fail');
+  const [fallbackStr, setFallbackStr] = useState('');
+  const [timeoutStr, setTimeoutStr] = useState('');
 
   // Test State
   const [testInput, setTestInput] = useState('{\n  "email": "test@example.com"\n}');
@@ -36,10 +126,17 @@ export const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({ node, nodes, e
     if (node) {
       setLabel(node.label);
       setService(node.service);
+      setOperation(node.operation);
       setType(node.type);
       setConfig(node.config || {});
       setJsonStr(JSON.stringify(node.config || {}, null, 2));
-      setCodeStr(node.config?.code || '// Write JavaScript here.\n// Access input via `input` object.\n// Return an object to merge with output.\n\nconst value = input.totalValue || 0;\nreturn { calculatedTax: value * 0.2 };');
+      setRetryForm(toRetryForm(getRetryPolicy(node)));
+      setTimeoutStr(node.timeout || '');
+      setErrorMode(node.onError?.mode || 'fail');
+      setFallbackStr(node.onError?.fallbackOutput ? JSON.stringify(node.onError.fallbackOutput, null, 2) : '');
+      setScriptLanguage(node.config?.language === 'typescript' ? 'typescript' : 'javascript');
+      setScriptTests(Array.isArray(node.config?.tests) ? node.config.tests : []);
+      setCodeStr(node.config?.code || '// Write JavaScript here.\n// Access input via `input` object.\n// Return an object to merge with output.\n// Runs in an isolated worker: `await` works, console.log goes to the step logs.\n\nconst value = input.totalValue || 0;\nreturn { calculatedTax: value * 0.2 };');
       
       // Auto-switch to code mode for Script nodes
       if (node.type === NodeType.SCRIPT) {
@@ -56,24 +153,59 @@ export const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({ node, nodes, e
 
   if (!node) return null;
 
-  const handleSave = () => {
+  const updateRetryField = (key: keyof RetryForm, value: string) => {
+    setRetryForm(prev => ({ ...prev, [key]: value }));
+  };
+
+  const buildRetryPolicy = (): RetryPolicy => ({
+    maximumAttempts: parseInt(retryForm.maximumAttempts) || DEFAULT_RETRY_POLICY.maximumAttempts,
+    initialInterval: retryForm.initialInterval || DEFAULT_RETRY_POLICY.initialInterval,
+    backoffCoefficient: parseFloat(retryForm.backoffCoefficient) || DEFAULT_RETRY_POLICY.backoffCoefficient,
+    maximumInterval: retryForm.maximumInterval || undefined,
+    nonRetryableErrorTypes: retryForm.nonRetryableErrorTypes.split(',').map(t => t.trim()).filter(Boolean)
+  });
+
+  // Script source and tests, plus for TypeScript the compiled JavaScript the engine runs
+  const buildScriptConfig = async (): Promise<Record<string, any>> => {
+    const { compiledCode, language, tests, ...rest } = config;
+    return {
+      ...rest,
+      code: codeStr,
+      language: scriptLanguage === 'typescript' ? scriptLanguage : undefined,
+      compiledCode: scriptLanguage === 'typescript' ? await compileScript(codeStr) : undefined,
+      tests: scriptTests.length > 0 ? scriptTests : undefined
+    };
+  };
+
+  const getScriptCode = () => scriptLanguage === 'typescript' ? compileScript(codeStr) : Promise.resolve(codeStr);
+
+  const handleSave = async () => {
     try {
       let finalConfig = config;
       if (mode === 'json') {
           finalConfig = JSON.parse(jsonStr);
       } else if (mode === 'code') {
-          // Store code string in config
-          finalConfig = { ...config, code: codeStr };
+          finalConfig = await buildScriptConfig();
       }
       onUpdate({ 
           ...node, 
           label, 
           service,
+          operation,
           type,
-          config: finalConfig 
+          config: finalConfig,
+          // Only persist the policy when it differs from what this node type gets by default
+          retry: JSON.stringify(buildRetryPolicy()) === JSON.stringify(getRetryPolicy({ ...node, type, retry: undefined }))
+              ? undefined
+              : buildRetryPolicy(),
+          timeout: timeoutStr.trim() || undefined,
+          onError: errorMode === 'fail' ? undefined : {
+              mode: errorMode,
+              fallbackOutput: errorMode === 'fallback' ? JSON.parse(fallbackStr || '{}') : undefined
+          }
       });
-    } catch (e) {
-      alert("Invalid configuration format");
+    } catch (e: any) {
+      alert(mode === 'code' ? `Could not compile the script: ${e.message}` : "Invalid configuration format");
     }
   };
 
@@ -86,12 +218,14 @@ export const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({ node, nodes, e
         // Prepare temporary node with current un-saved config for testing
         let tempConfig = config;
         if (mode === 'json') tempConfig = JSON.parse(jsonStr);
-        if (mode === 'code') tempConfig = { ...config, code: codeStr };
+        if (mode === 'code') tempConfig = await buildScriptConfig();
         
-        const tempNode = { ...node, label, service, type, config: tempConfig };
+        const tempNode = { ...node, label, service, operation, type, config: tempConfig, retry: buildRetryPolicy(), timeout: timeoutStr.trim() || undefined };
         
-        const { output, logs } = await processNode(tempNode, input);
+        const { output, produced, logs } = await processNode(tempNode, input, undefined, browserEnvironment);
         setTestResult({ output, logs });
+        // Offered as variables to the steps after this one
+        localTestResultStore.set(testResultKey(workflowId, node.id), produced);
     } catch (e: any) {
         setTestResult({ error: e.message || 'Unknown Error', logs: [`Error: ${e.message}`] });
     } finally {
@@ -105,146 +239,379 @@ export const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({ node, nodes, e
     setJsonStr(JSON.stringify(newConfig, null, 2));
   };
 
-  // Helper to guess variables based on service type
-  const getVarsForService = (svc: string) => {
-      if (svc.includes('shopify')) return ['orderId', 'totalValue', 'customerEmail', 'items'];
-      if (svc.includes('typeform')) return ['formId', 'answers', 'email'];
-      if (svc.includes('github')) return ['repo', 'pr_number', 'branch'];
-      if (svc.includes('gemini') || svc.includes('ai')) return ['aiResult', 'summary'];
-      if (svc.includes('http')) return ['status', 'data'];
-      return ['id', 'timestamp'];
-  }
+  // Saving from the builder replaces the legacy single-rule fields
+  const updateConditions = (group: ConditionGroup) => {
+    const { variable, operator, threshold, ...rest } = config;
+    const newConfig = { ...rest, conditions: group };
+    setConfig(newConfig);
+    setJsonStr(JSON.stringify(newConfig, null, 2));
+  };
 
-  // Generate available variables list based on GRAPH TRAVERSAL
-  const upstreamNodes = getUpstreamNodes(nodes, edges, node.id);
-  const availableVars = upstreamNodes.map(n => ({
-      source: n.label,
-      vars: getVarsForService(n.service)
-  }));
+  // Variables of the upstream steps, from their output schemas, last tests and recent runs
+  const availableVars = getAvailableVariables(nodes, edges, node.id, {
+      connectors: browserEnvironment.connectors,
+      runs: runs.filter(r => r.workflowId === workflowId),
+      getTestResult: (id) => localTestResultStore.get(testResultKey(workflowId, id))
+  });
+  const suggestions = listSuggestions(availableVars);
+  // Scripts see `input` typed from the upstream outputs and whatever sample payloads are at hand
+  const parseSample = (text: string) => { try { return JSON.parse(text); } catch { return undefined; } };
+  const stepSlugs = getStepSlugs(nodes);
+  const scriptInputType = buildInputType(
+      [parseSample(testInput), ...scriptTests.map(t => parseSample(t.input))],
+      availableVars.filter(group => group.prefix).map(group => ({
+          slug: stepSlugs.get(group.nodeId) || group.nodeId,
+          fields: group.variables.map(v => v.path).filter(path => /^[\w$]+$/.test(path))
+      }))
+  );
+  // Flat names are shorter, but the last node to write a key wins; step paths always point at one node
+  const toExpression = (group: StepVariables, path: string) => varStyle === 'step' && group.prefix ? `${group.prefix}.${path}` : path;
+  // Into the last focused text field, or onto the clipboard when no field had focus yet
+  const insertVariable = (expression: string) => {
+      if (insertTarget.current) insertTarget.current.insert(expression);
+      else navigator.clipboard.writeText(`{{${expression}}}`);
+  };
 
 
   // Helper to render form fields based on service type
   const renderFormFields = () => {
-    const s = service.toLowerCase();
+    // 1. Condition
+    if (type === NodeType.CONDITION) {
+        return (
+            <>
+                <ConditionBuilder
+                    group={getConditionGroup(config)}
+                    onChange={updateConditions}
+                    variables={suggestions.map(s => s.expression)}
+                />
+                <SelectField 
+                    label="If a variable is missing" 
+                    value={config.onMissing || 'false'} 
+                    onChange={(v) => updateConfigField('onMissing', v)} 
+                    options={['false', 'error']} 
+                />
+                <p className="text-[10px] text-slate-500">
+                    'false' fails just that rule; 'error' fails the step. Rules using exists or is empty handle missing variables themselves.
+                </p>
+            </>
+        )
+    }
 
-    // 0. HTTP Request
-    if (s === 'http') {
+    // 1a. Switch
+    if (type === NodeType.SWITCH) {
+        const cases: string[] = Array.isArray(config.cases) ? config.cases : getSwitchCases({ ...node, config });
+        const updateCase = (index: number, value: string) =>
+            updateConfigField('cases', cases.map((c, i) => i === index ? value : c));
         return (
             <>
+                <InputField label="Switch On (variable)" value={config.variable} onChange={(v) => updateConfigField('variable', v)} placeholder="e.g. status or steps.fetch.data.type" />
+                <div>
+                    <label className="block text-xs font-medium text-slate-400 mb-1">Cases</label>
+                    <div className="space-y-1.5">
+                        {cases.map((value, index) => (
+                            <div key={index} className="flex items-center gap-1.5">
+                                <input 
+                                    value={value}
+                                    onChange={(e) => updateCase(index, e.target.value)}
+                                    placeholder={`case ${index + 1}`}
+                                    className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-brand-500 placeholder-slate-600"
+                                />
+                                <button onClick={() => updateConfigField('cases', cases.filter((_, i) => i !== index))} className="text-slate-600 hover:text-red-400 p-1" title="Remove case">
+                                    <Trash2 size={12} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                    <button onClick={() => updateConfigField('cases', [...cases, ''])} className="mt-2 flex items-center gap-1 text-[10px] font-medium text-brand-400 hover:text-brand-300">
+                        <Plus size={10} /> Case
+                    </button>
+                </div>
+                <p className="text-[10px] text-slate-500">
+                    Cases are checked in order and the first equal one picks the path labeled with it. When none match, the <code className="text-orange-400">{SWITCH_DEFAULT_LABEL}</code> path runs. New connections are labeled with the next case that has no path yet.
+                </p>
+            </>
+        )
+    }
+
+    // 1b. Merge / Join
+    if (type === NodeType.MERGE) {
+        const strategy = config.strategy || 'combine';
+        return (
+            <>
+                <div className="grid grid-cols-2 gap-2">
+                    <SelectField 
+                        label="Wait For" 
+                        value={config.mode || 'wait-all'} 
+                        onChange={(v) => updateConfigField('mode', v)} 
+                        options={MERGE_MODES} 
+                    />
+                    {config.mode === 'first-n' && (
+                        <InputField label="Branches (N)" value={config.count} onChange={(v) => updateConfigField('count', v)} placeholder="2" />
+                    )}
+                </div>
                 <SelectField 
-                    label="Method" 
-                    value={config.method} 
-                    onChange={(v) => updateConfigField('method', v)} 
-                    options={['GET', 'POST', 'PUT', 'DELETE', 'PATCH']} 
+                    label="Merge Strategy" 
+                    value={strategy} 
+                    onChange={(v) => updateConfigField('strategy', v)} 
+                    options={MERGE_STRATEGIES} 
                 />
-                <InputField label="URL" value={config.url} onChange={(v) => updateConfigField('url', v)} placeholder="https://api.example.com/v1/resource" />
-                {config.method !== 'GET' && config.method !== 'DELETE' && (
-                    <TextAreaField label="JSON Body" value={config.body} onChange={(v) => updateConfigField('body', v)} placeholder='{ "key": "{{value}}" }' />
+                {(strategy === 'by-branch' || strategy === 'append') && (
+                    <InputField label="Output Key" value={config.outputKey} onChange={(v) => updateConfigField('outputKey', v)} placeholder="merged" />
                 )}
-                <TextAreaField label="Headers (JSON)" value={config.headers} onChange={(v) => updateConfigField('headers', v)} placeholder='{ "Authorization": "Bearer key" }' />
+                <p className="text-[10px] text-slate-500">
+                    {MERGE_STRATEGY_HINTS[strategy as MergeStrategy]}
+                </p>
             </>
         )
     }
 
-    // 1. Gmail / Email
-    if (s.includes('gmail') || s.includes('mail')) {
-      return (
-        <>
-          <InputField label="To Address" value={config.to} onChange={(v) => updateConfigField('to', v)} placeholder="recipient@example.com" />
-          <InputField label="Subject" value={config.subject} onChange={(v) => updateConfigField('subject', v)} placeholder="New Alert: {{orderId}}" />
-          <TextAreaField label="Body" value={config.body} onChange={(v) => updateConfigField('body', v)} placeholder="Hello {{name}}, ..." />
-        </>
-      );
+    // 1c. Loop / ForEach
+    if (type === NodeType.FOREACH) {
+        return (
+            <>
+                <InputField label="Items (array variable)" value={config.items} onChange={(v) => updateConfigField('items', v)} placeholder="e.g. items or data.rows" />
+                <div className="grid grid-cols-2 gap-2">
+                    <InputField label="Item Variable" value={config.itemVariable} onChange={(v) => updateConfigField('itemVariable', v)} placeholder="item" />
+                    <InputField label="Collect Into" value={config.resultKey} onChange={(v) => updateConfigField('resultKey', v)} placeholder="results" />
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                    <InputField label="Concurrency" value={config.concurrency} onChange={(v) => updateConfigField('concurrency', v)} placeholder="1" />
+                    <InputField label="Batch Size" value={config.batchSize} onChange={(v) => updateConfigField('batchSize', v)} placeholder="0 (one item per run)" />
+                </div>
+                <p className="text-[10px] text-slate-500">
+                    Nodes on the <code className="text-cyan-400">{LOOP_BODY_LABEL}</code> path run once per item with <code className="text-emerald-400">{`{{${config.itemVariable || 'item'}}}`}</code> and <code className="text-emerald-400">{'{{index}}'}</code>. The other path runs after all iterations finish.
+                </p>
+            </>
+        )
     }
 
-    // 2. Slack / Discord
-    if (s.includes('slack') || s.includes('discord')) {
-      return (
-        <>
-          <InputField label="Channel" value={config.channel} onChange={(v) => updateConfigField('channel', v)} placeholder="#general" />
-          <TextAreaField label="Message" value={config.message} onChange={(v) => updateConfigField('message', v)} placeholder="New Lead: {{email}}..." />
-        </>
-      );
+    // 1d. Sub-workflow
+    if (type === NodeType.SUBWORKFLOW) {
+        const inputs: [string, string][] = Object.entries(config.inputs || {});
+        const updateInputs = (rows: [string, string][]) => updateConfigField('inputs', Object.fromEntries(rows));
+        return (
+            <>
+                <div>
+                    <label className="block text-xs font-medium text-slate-400 mb-1">Workflow</label>
+                    <select 
+                        value={config.workflowId || ''}
+                        onChange={(e) => updateConfigField('workflowId', e.target.value)}
+                        className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-brand-500 transition-colors"
+                    >
+                        <option value="" disabled>Select Workflow</option>
+                        {workflows.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-xs font-medium text-slate-400 mb-1">Inputs</label>
+                    <div className="space-y-1.5">
+                        {inputs.map(([key, value], index) => (
+                            <div key={index} className="flex items-center gap-1.5">
+                                <input 
+                                    value={key}
+                                    onChange={(e) => updateInputs(inputs.map((row, i) => i === index ? [e.target.value, row[1]] : row))}
+                                    placeholder="field"
+                                    className="w-1/3 bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-brand-500 placeholder-slate-600"
+                                />
+                                <input 
+                                    value={value}
+                                    onChange={(e) => updateInputs(inputs.map((row, i) => i === index ? [row[0], e.target.value] : row))}
+                                    placeholder="{{email}}"
+                                    className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-brand-500 placeholder-slate-600"
+                                />
+                                <button onClick={() => updateInputs(inputs.filter((_, i) => i !== index))} className="text-slate-600 hover:text-red-400 p-1" title="Remove input">
+                                    <Trash2 size={12} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                    <button onClick={() => updateInputs([...inputs, [`field${inputs.length + 1}`, '']])} className="mt-2 flex items-center gap-1 text-[10px] font-medium text-brand-400 hover:text-brand-300">
+                        <Plus size={10} /> Input
+                    </button>
+                </div>
+                <InputField label="Output Key" value={config.outputKey} onChange={(v) => updateConfigField('outputKey', v)} placeholder="(merge into the payload)" />
+                <p className="text-[10px] text-slate-500">
+                    With no inputs mapped, the child run starts with this step's whole input. The step waits for the child run and continues with its final output; the child run is linked from this run's details.
+                </p>
+            </>
+        )
     }
 
-    // 3. Shopify / E-commerce
-    if (s.includes('shopify')) {
-      return (
-        <>
-          <SelectField 
-            label="Resource" 
-            value={config.resource} 
-            onChange={(v) => updateConfigField('resource', v)} 
-            options={['Orders', 'Products', 'Customers', 'Inventory']} 
-          />
-          <SelectField 
-            label="Event" 
-            value={config.event} 
-            onChange={(v) => updateConfigField('event', v)} 
-            options={['Created', 'Updated', 'Deleted', 'Paid', 'Fulfilled']} 
-          />
-        </>
-      );
+    // 1e. Approval
+    if (type === NodeType.APPROVAL) {
+        return (
+            <>
+                <TextAreaField label="Request Message" value={config.message} onChange={(v) => updateConfigField('message', v)} placeholder="Approve expense {{id}} for ${{amount}}?" />
+                <InputField label="Expires After" value={config.expiresAfter} onChange={(v) => updateConfigField('expiresAfter', v)} placeholder="e.g. 2d (never)" />
+                <p className="text-[10px] text-slate-500">
+                    The run pauses here until someone approves or rejects it from the run details. It then follows the <code className="text-emerald-400">approved</code> path (or unlabeled paths) or the <code className="text-red-400">rejected</code> path, with the decision in <code className="text-emerald-400">{'{{approval.comment}}'}</code> and <code className="text-emerald-400">{'{{approval.actor}}'}</code>. Without a decision in time it takes the <code className="text-yellow-400">{APPROVAL_EXPIRED_LABEL}</code> path, or fails if there is none.
+                </p>
+            </>
+        )
     }
 
-    // 4. AI / Gemini
-    if (s.includes('gemini') || s.includes('gpt') || s.includes('ai')) {
-      return (
-        <>
-          <SelectField 
-            label="Model" 
-            value={config.model} 
-            onChange={(v) => updateConfigField('model', v)} 
-            options={['gemini-2.5-flash', 'gemini-pro', 'gpt-4']} 
-          />
-          <TextAreaField label="Prompt" value={config.prompt} onChange={(v) => updateConfigField('prompt', v)} placeholder="Summarize this text: {{body}}..." />
-        </>
-      );
-    }
-    
-    // 5. Condition
-    if (type === NodeType.CONDITION) {
+    // 1f. Delay
+    if (type === NodeType.DELAY) {
+        const mode = config.mode || 'for';
+        const hours = config.businessHours;
+        const days: number[] = hours?.days || DEFAULT_BUSINESS_DAYS;
+        const updateHours = (patch: Record<string, any>) => updateConfigField('businessHours', { ...hours, ...patch });
+        // Preview for literal values; templated ones are only known at run time
+        let preview = '';
+        if (!JSON.stringify(config).includes('{{')) {
+            try {
+                preview = `Resumes ${computeResumeTime(config, new Date()).toLocaleString()} if it starts now.`;
+            } catch (e: any) {
+                preview = e.message;
+            }
+        }
         return (
             <>
-                <InputField label="Variable" value={config.variable} onChange={(v) => updateConfigField('variable', v)} placeholder="e.g. totalValue" />
-                <div className="grid grid-cols-2 gap-2">
-                    <SelectField 
-                        label="Operator" 
-                        value={config.operator} 
-                        onChange={(v) => updateConfigField('operator', v)} 
-                        options={['>', '<', '==', '!=', 'contains']} 
+                <SelectField label="Wait" value={mode} onChange={(v) => updateConfigField('mode', v)} options={DELAY_MODES} />
+                {mode === 'for' ? (
+                    <InputField label="Duration" value={config.duration} onChange={(v) => updateConfigField('duration', v)} placeholder="e.g. 1h, 2d12h or {{hours}}h" />
+                ) : (
+                    <InputField label="Until (timestamp)" value={config.until} onChange={(v) => updateConfigField('until', v)} placeholder="2025-01-31T09:00:00Z or {{order.shipAt}}" />
+                )}
+                <label className="flex items-center gap-2 text-xs text-slate-400">
+                    <input
+                        type="checkbox"
+                        checked={!!hours}
+                        onChange={(e) => updateConfigField('businessHours', e.target.checked ? { start: '09:00', end: '17:00' } : undefined)}
                     />
-                    <InputField label="Threshold" value={config.threshold} onChange={(v) => updateConfigField('threshold', v)} placeholder="100" />
-                </div>
+                    Only resume during business hours
+                </label>
+                {hours && (
+                    <div className="bg-slate-950 border border-slate-800 rounded-lg p-3 space-y-2">
+                        <div className="grid grid-cols-2 gap-2">
+                            <InputField label="Opens" value={hours.start} onChange={(v) => updateHours({ start: v })} placeholder="09:00" />
+                            <InputField label="Closes" value={hours.end} onChange={(v) => updateHours({ end: v })} placeholder="17:00" />
+                        </div>
+                        <div className="flex gap-1">
+                            {WEEKDAY_INITIALS.map((initial, day) => (
+                                <button
+                                    key={day}
+                                    onClick={() => updateHours({ days: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort((a, b) => a - b) })}
+                                    className={`flex-1 py-1 rounded text-[10px] font-bold ${days.includes(day) ? 'bg-lime-600 text-white' : 'bg-slate-800 text-slate-500'}`}
+                                >
+                                    {initial}
+                                </button>
+                            ))}
+                        </div>
+                        <InputField label="Time Zone" value={hours.timezone} onChange={(v) => updateHours({ timezone: v || undefined })} placeholder={Intl.DateTimeFormat().resolvedOptions().timeZone} />
+                    </div>
+                )}
+                {preview && <p className="text-[10px] text-lime-400">{preview}</p>}
+                <p className="text-[10px] text-slate-500">
+                    Waits up to {describeDuration(IN_PROCESS_DELAY_MS)} keep the run going. Longer ones pause it as waiting, and it continues once the time has passed, also after the app was closed and opened again.
+                </p>
             </>
         )
     }
 
-    // 6. Webhook (Trigger)
-    if (s === 'webhook') {
-        return (
-            <div className="bg-slate-950 p-3 rounded-lg border border-slate-800">
-                <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Webhook URL</label>
+    // 2. Connector steps: the form comes from the config schema of the selected operation
+    const fallback = (message: React.ReactNode) => (
+      <div className="text-center py-4 text-slate-500 text-sm bg-slate-800/30 rounded-lg">{message}</div>
+    );
+    if (ENGINE_NODE_TYPES.includes(type)) {
+        return fallback(<>No smart fields available for {type}. <br/> Use JSON mode.</>);
+    }
+    let resolved: ResolvedOperation | undefined;
+    try {
+        resolved = browserEnvironment.connectors.resolve({ ...node, service, type, operation });
+    } catch (e: any) {
+        return fallback(e.message);
+    }
+    if (!resolved) {
+        return fallback(<>No smart fields available for {service}. <br/> Use JSON mode.</>);
+    }
+    const { connector, kind, operation: selected } = resolved;
+    const operations = kind === 'trigger' ? connector.definition.triggers : connector.definition.actions;
+    const isWebhook = connector.definition.id === 'webhook' && kind === 'trigger';
+    const isSchedule = connector.definition.id === 'schedule' && kind === 'trigger';
+
+    return (
+        <>
+            {operations.length > 1 && (
+                <div>
+                    <label className="block text-xs font-medium text-slate-400 mb-1">{kind === 'trigger' ? 'Trigger' : 'Action'}</label>
+                    <select
+                        value={selected.id}
+                        onChange={(e) => setOperation(e.target.value)}
+                        className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-brand-500 transition-colors"
+                    >
+                        {operations.map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+                    </select>
+                </div>
+            )}
+            {selected.description && <p className="text-[10px] text-slate-500">{selected.description}</p>}
+            {isWebhook && renderWebhookUrl()}
+            <ConfigSchemaForm schema={selected.config} config={config} onChange={updateConfigField} />
+            {isWebhook && config.secret && (
+                <p className="text-[10px] text-slate-500">
+                    Requests must send <code className="text-emerald-400">{WEBHOOK_SIGNATURE_HEADER}: sha256=&lt;hex HMAC-SHA256 of the raw body&gt;</code>. Others are rejected with 401.
+                </p>
+            )}
+            {isSchedule && renderSchedulePreview()}
+        </>
+    );
+  };
+
+  const renderWebhookUrl = () => {
+    const hookPath = (config.path || '').trim() || workflowId;
+    const hookUrl = hookPath ? `http://localhost:${DEFAULT_WEBHOOK_PORT}${WEBHOOK_PATH_PREFIX}${hookPath}` : '';
+    return (
+        <div className="bg-slate-950 p-3 rounded-lg border border-slate-800">
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Webhook URL</label>
+            {hookUrl ? (
                 <div className="flex items-center space-x-2">
                     <code className="flex-1 bg-slate-900 px-2 py-1.5 rounded text-xs text-blue-300 font-mono break-all border border-slate-700">
-                        https://api.automator.os/hooks/wk_{node.id.slice(0,8)}
+                        {hookUrl}
                     </code>
-                    <button className="text-xs bg-slate-800 px-2 py-1.5 rounded text-slate-300 hover:text-white border border-slate-700 transition-colors">
+                    <button
+                        onClick={() => navigator.clipboard.writeText(hookUrl)}
+                        className="text-xs bg-slate-800 px-2 py-1.5 rounded text-slate-300 hover:text-white border border-slate-700 transition-colors"
+                    >
                         Copy
                     </button>
                 </div>
-                <p className="text-[10px] text-slate-500 mt-2">
-                    Send a POST request to this URL to trigger this workflow.
-                </p>
-            </div>
-        )
-    }
+            ) : (
+                <p className="text-[10px] text-yellow-400">Save the workflow or set a path to get its URL.</p>
+            )}
+            <p className="text-[10px] text-slate-500 mt-2">
+                POST to this URL while the local receiver runs (<code className="text-emerald-400">npm run webhooks</code>) and the workflow is active. Later steps read <code className="text-emerald-400">{'{{body.x}}'}</code>, <code className="text-emerald-400">{'{{query.x}}'}</code> and <code className="text-emerald-400">{'{{headers.x}}'}</code>.
+            </p>
+        </div>
+    );
+  };
 
-    // Default Fallback
+  const renderSchedulePreview = () => {
+    const catchUp: ScheduleCatchUp = config.catchUp || DEFAULT_CATCH_UP;
+    const timezone = config.timezone || undefined;
+    const cronError = config.cron ? validateCron(config.cron) : 'Enter a cron expression.';
+    const zoneError = timezone && !isValidTimeZone(timezone) ? `Unknown time zone '${timezone}'.` : null;
+    const upcoming = cronError || zoneError ? [] : upcomingCronTimes(config.cron, new Date(), 5, timezone);
     return (
-      <div className="text-center py-4 text-slate-500 text-sm bg-slate-800/30 rounded-lg">
-        No smart fields available for {service}. <br/> Use JSON mode.
-      </div>
+        <>
+            <p className="text-[10px] text-slate-500">{CATCH_UP_HINTS[catchUp]}</p>
+            <div className="bg-slate-950 border border-slate-800 rounded-lg p-3">
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Next Runs</label>
+                {cronError || zoneError ? (
+                    <p className="text-[10px] text-red-400">{cronError || zoneError}</p>
+                ) : upcoming.length === 0 ? (
+                    <p className="text-[10px] text-yellow-400">This schedule never fires.</p>
+                ) : (
+                    <ul className="space-y-1">
+                        {upcoming.map(t => (
+                            <li key={t.getTime()} className="text-[10px] text-blue-300 font-mono">{t.toLocaleString()}</li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+            <p className="text-[10px] text-slate-500">
+                <code className="text-emerald-400">@daily</code>, <code className="text-emerald-400">@weekly</code> and friends work too. Only active workflows fire, while the app is open; the run input has <code className="text-emerald-400">{'{{scheduledFor}}'}</code> and <code className="text-emerald-400">{'{{missed}}'}</code>.
+            </p>
+        </>
     );
   };
 
@@ -283,7 +650,7 @@ export const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({ node, nodes, e
         
         {/* CONFIG TAB */}
         {activeTab === 'config' && (
-            <>
+            <TemplateVariablesContext.Provider value={{ suggestions, target: insertTarget }}>
                 <div className="space-y-3">
                     <div>
                         <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Step Name</label>
@@ -301,6 +668,7 @@ export const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({ node, nodes, e
                                 value={type}
                                 onChange={(e) => {
                                     setType(e.target.value as NodeType);
+                                    setOperation(undefined);
                                     if (e.target.value === NodeType.SCRIPT) setMode('code');
                                     else setMode('form');
                                 }}
@@ -313,18 +681,18 @@ export const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({ node, nodes, e
                             <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Service</label>
                             <select 
                                 value={service}
-                                onChange={(e) => setService(e.target.value)}
+                                onChange={(e) => { setService(e.target.value); setOperation(undefined); }}
                                 className="w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-2 text-sm text-slate-200 focus:outline-none focus:border-brand-500"
                             >
                                 <option value="system">System</option>
-                                <option value="http">HTTP Request</option>
-                                <option value="webhook">Webhook (Trigger)</option>
-                                <option value="gmail">Gmail</option>
-                                <option value="slack">Slack</option>
-                                <option value="shopify">Shopify</option>
-                                <option value="sheets">Sheets</option>
-                                <option value="gemini">Gemini AI</option>
+                                {browserEnvironment.connectors.list().map(({ definition }) => (
+                                    <option key={definition.id} value={definition.id}>{definition.name}</option>
+                                ))}
                                 <option value="script">Script (JS)</option>
+                                {/* Services without a connector, e.g. from templates, run a generic handler */}
+                                {!['system', 'script'].includes(service) && !browserEnvironment.connectors.get(service) && (
+                                    <option value={service}>{service}</option>
+                                )}
                             </select>
                         </div>
                     </div>
@@ -335,7 +703,17 @@ export const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({ node, nodes, e
                     <label className="text-xs font-bold text-slate-500 uppercase">Configuration</label>
                     
                     {type === NodeType.SCRIPT ? (
-                        <span className="text-[10px] font-mono text-pink-400">JavaScript Mode</span>
+                        <div className="flex bg-slate-800 rounded-lg p-0.5">
+                            {(['javascript', 'typescript'] as const).map(lang => (
+                                <button 
+                                    key={lang}
+                                    onClick={() => setScriptLanguage(lang)}
+                                    className={`px-2 py-0.5 text-[10px] font-mono font-medium rounded-md transition-all ${scriptLanguage === lang ? 'bg-pink-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                                >
+                                    {lang === 'javascript' ? 'JavaScript' : 'TypeScript'}
+                                </button>
+                            ))}
+                        </div>
                     ) : (
                         <div className="flex bg-slate-800 rounded-lg p-0.5">
                             <button 
@@ -357,17 +735,7 @@ export const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({ node, nodes, e
                 {/* Dynamic Fields */}
                 <div className="space-y-4 h-full">
                     {mode === 'code' ? (
-                        <div className="relative h-64 flex flex-col">
-                            <textarea 
-                                value={codeStr}
-                                onChange={(e) => setCodeStr(e.target.value)}
-                                className="flex-1 w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-xs font-mono text-pink-300 focus:outline-none focus:border-pink-500 resize-none leading-relaxed custom-scrollbar"
-                                spellCheck={false}
-                            />
-                            <p className="text-[10px] text-slate-500 mt-2">
-                                Execute raw JS. Return an object to merge it into the workflow payload.
-                            </p>
-                        </div>
+                        <ScriptEditor code={codeStr} onChange={setCodeStr} language={scriptLanguage} inputType={scriptInputType} />
                     ) : mode === 'form' ? renderFormFields() : (
                         <div className="relative">
                             <textarea 
@@ -387,31 +755,92 @@ export const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({ node, nodes, e
                         </button>
                         {showVars && (
                             <div className="mt-2 text-[10px] space-y-2 animate-in slide-in-from-top-2">
-                                {availableVars.map((group, i) => (
-                                    <div key={i}>
-                                        <div className="text-slate-500 font-medium mb-0.5">{group.source}</div>
+                                {availableVars.length > 0 && (
+                                    <div className="flex bg-slate-900 rounded p-0.5 border border-slate-800 w-fit">
+                                        {(['flat', 'step'] as const).map(style => (
+                                            <button
+                                                key={style}
+                                                onClick={() => setVarStyle(style)}
+                                                className={`px-2 py-0.5 rounded ${varStyle === style ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                                            >
+                                                {style === 'flat' ? 'Flat' : 'By step'}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                                {availableVars.map(group => (
+                                    <div key={group.nodeId}>
+                                        <div className="text-slate-500 font-medium mb-0.5">
+                                            {group.label} {group.prefix && <span className="text-slate-600 font-mono">· {group.prefix}</span>}
+                                        </div>
                                         <div className="flex flex-wrap gap-1">
-                                            {group.vars.map(v => (
-                                                <code key={v} className="bg-slate-800 text-emerald-400 px-1.5 py-0.5 rounded border border-slate-700 select-all cursor-copy" title="Click to copy" onClick={() => {
-                                                    navigator.clipboard.writeText(`{{${v}}}`);
-                                                }}>
-                                                    {`{{${v}}}`}
+                                            {group.variables.map(v => (
+                                                <code
+                                                    key={v.path}
+                                                    className="bg-slate-800 text-emerald-400 px-1.5 py-0.5 rounded border border-slate-700 cursor-pointer hover:border-emerald-500"
+                                                    title={[`${v.type} (${VARIABLE_SOURCE_LABELS[v.source]})`, v.description, v.sample].filter(Boolean).join('\n')}
+                                                    // Keeps the focus, and the caret, in the field the variable goes into
+                                                    onMouseDown={(e) => { e.preventDefault(); insertVariable(toExpression(group, v.path)); }}
+                                                >
+                                                    {`{{${toExpression(group, v.path)}}}`}
                                                 </code>
                                             ))}
+                                            {group.variables.length === 0 && <span className="text-slate-600">Nothing known yet: test this step or run the workflow.</span>}
                                         </div>
                                     </div>
                                 ))}
                                 {availableVars.length === 0 && <span className="text-slate-600">No predecessor variables found (connect nodes first).</span>}
+                                {availableVars.length > 0 && <p className="text-slate-500">Click a variable to insert it into the last focused field, or type <code className="text-emerald-400">{'{{'}</code> in a field to complete one.</p>}
+                                <p className="text-slate-500 border-t border-slate-800 pt-2">
+                                    Expressions support paths <code className="text-emerald-400">{'{{order.items[0].sku}}'}</code>, defaults <code className="text-emerald-400">{"{{name ?? 'there'}}"}</code> and filters <code className="text-emerald-400">{'{{aiResult | upper}}'}</code>: {Object.keys(FILTERS).join(', ')}.
+                                </p>
                             </div>
                         )}
                     </div>
+
+                    {/* Error Handling */}
+                    <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-3 space-y-3">
+                        <label className="flex items-center text-xs font-semibold text-slate-400">
+                            <ShieldAlert size={12} className="mr-1"/> Error Handling
+                        </label>
+                        <SelectField 
+                            label="On Failure" 
+                            value={errorMode} 
+                            onChange={(v) => setErrorMode(v as ErrorPolicyMode)} 
+                            options={['fail', 'continue', 'route', 'fallback']} 
+                        />
+                        {errorMode === 'fallback' && (
+                            <TextAreaField label="Fallback Output (JSON)" value={fallbackStr} onChange={setFallbackStr} placeholder='{ "posted": false }' />
+                        )}
+                        <p className="text-[10px] text-slate-500">{ERROR_POLICY_HINTS[errorMode]}</p>
+                    </div>
+
+                    {/* Timeout & Retry Policy */}
+                    <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-3 space-y-3">
+                        <label className="flex items-center text-xs font-semibold text-slate-400">
+                            <RotateCw size={12} className="mr-1"/> Timeout & Retry Policy
+                        </label>
+                        <InputField label="Timeout (per attempt)" value={timeoutStr} onChange={setTimeoutStr} placeholder="e.g. 30s (no limit)" />
+                        <div className="grid grid-cols-2 gap-2">
+                            <InputField label="Max Attempts" value={retryForm.maximumAttempts} onChange={(v: string) => updateRetryField('maximumAttempts', v)} placeholder="3" />
+                            <InputField label="Backoff Coefficient" value={retryForm.backoffCoefficient} onChange={(v: string) => updateRetryField('backoffCoefficient', v)} placeholder="2" />
+                            <InputField label="Initial Interval" value={retryForm.initialInterval} onChange={(v: string) => updateRetryField('initialInterval', v)} placeholder="1s" />
+                            <InputField label="Max Interval" value={retryForm.maximumInterval} onChange={(v: string) => updateRetryField('maximumInterval', v)} placeholder="1m" />
+                        </div>
+                        <InputField label="Non-Retryable Errors" value={retryForm.nonRetryableErrorTypes} onChange={(v: string) => updateRetryField('nonRetryableErrorTypes', v)} placeholder={KNOWN_ERROR_TYPES.join(', ')} />
+                        <p className="text-[10px] text-slate-500">{describeBackoff(buildRetryPolicy())}</p>
+                    </div>
                 </div>
-            </>
+            </TemplateVariablesContext.Provider>
         )}
 
         {/* TEST TAB */}
         {activeTab === 'test' && (
             <div className="h-full flex flex-col space-y-4">
+                 {type === NodeType.SCRIPT && (
+                    <ScriptTestTable tests={scriptTests} onChange={setScriptTests} getCode={getScriptCode} />
+                 )}
+
                  <div>
                     <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Mock Input (JSON)</label>
                     <textarea 
@@ -493,26 +922,14 @@ export const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({ node, nodes, e
 const InputField = ({ label, value, onChange, placeholder }: any) => (
   <div>
     <label className="block text-xs font-medium text-slate-400 mb-1">{label}</label>
-    <input 
-      type="text"
-      value={value || ''}
-      onChange={(e) => onChange(e.target.value)}
-      placeholder={placeholder}
-      className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-brand-500 transition-colors placeholder-slate-600"
-    />
+    <TemplateInput value={value} onChange={onChange} placeholder={placeholder} />
   </div>
 );
 
 const TextAreaField = ({ label, value, onChange, placeholder }: any) => (
     <div>
       <label className="block text-xs font-medium text-slate-400 mb-1">{label}</label>
-      <textarea 
-        value={value || ''}
-        onChange={(e) => onChange(e.target.value)}
-        placeholder={placeholder}
-        rows={3}
-        className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-brand-500 transition-colors placeholder-slate-600 resize-none"
-      />
+      <TemplateInput multiline value={value} onChange={onChange} placeholder={placeholder} className="resize-none" />
     </div>
   );
 
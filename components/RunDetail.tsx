@@ -1,17 +1,32 @@
 
-import React, { useEffect, useRef } from 'react';
-import { CheckCircle, XCircle, Clock, Terminal, ChevronRight, Loader2 } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { CheckCircle, XCircle, Clock, Terminal, ChevronRight, Loader2, GitBranch, Repeat, Ban, Square, RotateCcw, Link2, CornerLeftUp, Workflow, Hourglass, ThumbsUp, ThumbsDown, Webhook } from 'lucide-react';
+import { RunStep, RunSignal } from '../types';
 import { useAutomator } from '../store/AutomatorContext';
+import { useToast } from '../store/ToastContext';
+import { cancelRun, isRunActive, cancelWaitingRun } from '../lib/workflowEngine';
 
 interface RunDetailProps {
   runId: string;
   onBack: () => void;
+  onRetryFromStep?: (runId: string, nodeId: string) => void;
+  onViewRun?: (runId: string) => void;
+  onSignal?: (runId: string, stepId: string, signal: Omit<RunSignal, 'receivedAt'>) => void;
 }
 
-export const RunDetail: React.FC<RunDetailProps> = ({ runId, onBack }) => {
-  const { runs } = useAutomator();
+// Nest loop-body steps under the FOREACH step that ran them, ordered by iteration
+const orderSteps = (steps: RunStep[], parentStepId?: string, depth = 0): { step: RunStep, depth: number }[] =>
+  steps
+    .filter(s => s.parentStepId === parentStepId)
+    .sort((a, b) => (a.iteration ?? 0) - (b.iteration ?? 0))
+    .flatMap(step => [{ step, depth }, ...orderSteps(steps, step.id, depth + 1)]);
+
+export const RunDetail: React.FC<RunDetailProps> = ({ runId, onBack, onRetryFromStep, onViewRun, onSignal }) => {
+  const { runs, profile, updateRun } = useAutomator();
+  const { addToast } = useToast();
   const run = runs.find(r => r.id === runId);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const [comments, setComments] = useState<Record<string, string>>({}); // Approval comments by step id
 
   // Auto-scroll to bottom when logs update
   useEffect(() => {
@@ -30,6 +45,28 @@ export const RunDetail: React.FC<RunDetailProps> = ({ runId, onBack }) => {
       )
   }
 
+  const orderedSteps = orderSteps(run.steps);
+
+  // Only label branches when the run actually fanned out
+  const hasBranches = new Set(run.steps.map(s => s.branch).filter(Boolean)).size > 1;
+
+  // Runs execute in the tab that started them, so only that tab can stop one. Waiting runs are not
+  // executing anywhere and can be stopped from any tab.
+  const canCancel = (run.status === 'running' && isRunActive(run.id)) || run.status === 'waiting';
+
+  const handleCancel = () => {
+    if (run.status === 'waiting') {
+      updateRun(cancelWaitingRun(run, 'Run cancelled by user while waiting.'));
+      addToast('info', 'Run cancelled', 2000);
+    } else if (cancelRun(run.id)) {
+      addToast('info', 'Cancelling run...', 2000);
+    }
+  };
+
+  const handleDecision = (step: RunStep, decision: RunSignal['decision']) => {
+    onSignal?.(run.id, step.id, { decision, comment: comments[step.id], actor: profile.email });
+  };
+
   const displayDate = run.startedAt.includes('T') 
     ? new Date(run.startedAt).toLocaleString() 
     : run.startedAt;
@@ -50,15 +87,59 @@ export const RunDetail: React.FC<RunDetailProps> = ({ runId, onBack }) => {
               <span className={`text-xs px-2 py-0.5 rounded-full border flex items-center gap-1 ${
                   run.status === 'success' ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' : 
                   run.status === 'running' ? 'bg-blue-500/10 text-blue-400 border-blue-500/20' :
+                  run.status === 'cancelled' ? 'bg-amber-500/10 text-amber-400 border-amber-500/20' :
+                  run.status === 'interrupted' ? 'bg-orange-500/10 text-orange-400 border-orange-500/20' :
+                  run.status === 'waiting' ? 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20' :
                   'bg-red-500/10 text-red-400 border-red-500/20'
               }`}>
                 {run.status === 'running' && <span className="w-2 h-2 rounded-full bg-blue-400 animate-pulse"/>}
+                {run.status === 'waiting' && <Hourglass size={10} />}
                 {run.status.toUpperCase()}
               </span>
             </h2>
             <p className="text-slate-400 text-sm">{run.workflowName}</p>
+            {run.error && <p className="text-red-400 text-xs mt-1 font-mono">{run.error}</p>}
+            {run.resumedFrom && (
+              <button
+                onClick={() => onViewRun?.(run.resumedFrom!.runId)}
+                className="flex items-center gap-1 text-xs text-brand-400 hover:text-brand-300 mt-1"
+              >
+                <Link2 size={12} />
+                Retried from '{run.resumedFrom.nodeLabel}' of run {run.resumedFrom.runId.slice(0, 8)}...
+              </button>
+            )}
+            {run.parentRun && (
+              <button
+                onClick={() => onViewRun?.(run.parentRun!.runId)}
+                className="flex items-center gap-1 text-xs text-brand-400 hover:text-brand-300 mt-1"
+              >
+                <CornerLeftUp size={12} />
+                Called by '{run.parentRun.nodeLabel}' in {run.parentRun.workflowName} (run {run.parentRun.runId.slice(0, 8)}...)
+              </button>
+            )}
+            {run.delivery && (
+              <details className="text-xs text-slate-400 mt-1">
+                <summary className="flex items-center gap-1 cursor-pointer hover:text-slate-300">
+                  <Webhook size={12} />
+                  {run.delivery.method} {run.delivery.path} at {new Date(run.delivery.receivedAt).toLocaleString()}
+                  {run.delivery.signature === 'verified' ? ' · signature verified' : ' · unsigned'}
+                </summary>
+                <pre className="bg-slate-900 p-2 mt-1 rounded text-[10px] font-mono text-slate-300 overflow-x-auto border border-slate-800 max-h-40 custom-scrollbar">
+                  {JSON.stringify({ id: run.delivery.id, from: run.delivery.remoteAddress, query: run.delivery.query, headers: run.delivery.headers }, null, 2)}
+                </pre>
+              </details>
+            )}
           </div>
           <div className="flex items-center space-x-6 text-sm text-slate-400">
+            {canCancel && (
+              <button
+                onClick={handleCancel}
+                className="flex items-center space-x-1.5 bg-red-900/20 text-red-400 border border-red-900/50 hover:bg-red-900/30 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors"
+              >
+                <Square size={12} />
+                <span>Cancel Run</span>
+              </button>
+            )}
             <div className="flex items-center space-x-2">
               <Clock size={16} />
               <span>{displayDate}</span>
@@ -83,27 +164,101 @@ export const RunDetail: React.FC<RunDetailProps> = ({ runId, onBack }) => {
                      ) : 'No detailed logs available.'}
                  </div>
               ) : (
-                run.steps.map((step, idx) => (
-                  <div key={step.id} className="relative pl-6 pb-6 last:pb-0 animate-in slide-in-from-left-2 duration-300">
+                orderedSteps.map(({ step, depth }, idx) => (
+                  <div key={step.id} className="relative pl-6 pb-6 last:pb-0 animate-in slide-in-from-left-2 duration-300" style={{ marginLeft: depth * 16 }}>
                     {/* Connector Line */}
-                    {idx !== run.steps.length - 1 && (
+                    {idx !== orderedSteps.length - 1 && (
                       <div className="absolute left-2.5 top-6 bottom-0 w-0.5 bg-slate-800"></div>
                     )}
                     
                     <div className="absolute left-0 top-1">
                         {step.status === 'success' ? <CheckCircle size={20} className="text-emerald-500" /> : 
                          step.status === 'pending' ? <div className="w-5 h-5 rounded-full border-2 border-blue-500 border-t-transparent animate-spin"></div> :
+                         step.status === 'cancelled' ? <Ban size={20} className="text-amber-500" /> :
+                         step.status === 'waiting' ? <Hourglass size={20} className="text-yellow-500" /> :
                          <XCircle size={20} className="text-red-500" />}
                     </div>
 
-                    <div className={`bg-slate-800/50 border ${step.status === 'pending' ? 'border-blue-500/30 shadow-[0_0_10px_rgba(59,130,246,0.1)]' : 'border-slate-700/50'} rounded-lg p-3 transition-colors`}>
+                    <div className={`bg-slate-800/50 border ${step.status === 'pending' ? 'border-blue-500/30 shadow-[0_0_10px_rgba(59,130,246,0.1)]' : step.status === 'waiting' ? 'border-yellow-500/30' : 'border-slate-700/50'} rounded-lg p-3 transition-colors`}>
                       <div className="flex justify-between items-start mb-1">
                         <span className="font-medium text-slate-200 text-sm">{step.nodeLabel}</span>
                         <span className="text-[10px] text-slate-500 font-mono">{step.duration}</span>
                       </div>
-                      <div className="text-xs text-slate-500 truncate font-mono uppercase tracking-wide">
-                         {step.status}
+                      {step.iteration !== undefined && (
+                        <div className="flex items-center gap-1 text-[10px] text-cyan-500 font-mono mb-1">
+                          <Repeat size={10} /> Iteration #{step.iteration + 1}
+                        </div>
+                      )}
+                      {hasBranches && step.branch && (
+                        <div className="flex items-center gap-1 text-[10px] text-slate-500 font-mono mb-1">
+                          <GitBranch size={10} /> Branch {step.branch}
+                        </div>
+                      )}
+                      <div className="flex justify-between items-center">
+                        <div className="text-xs text-slate-500 truncate font-mono uppercase tracking-wide">
+                           {step.status}{step.reusedFrom && ' · reused'}
+                        </div>
+                        {/* Loop body steps are retried through their FOREACH step */}
+                        {onRetryFromStep && run.status !== 'running' && run.status !== 'waiting' && !step.parentStepId && step.nodeId !== 'system' && (
+                          <button
+                            onClick={() => onRetryFromStep(run.id, step.nodeId)}
+                            className={`flex items-center gap-1 text-[10px] font-medium ${step.status === 'failed' ? 'text-brand-400 hover:text-brand-300' : 'text-slate-500 hover:text-slate-300'}`}
+                            title="Re-run this step and everything after it, reusing the outputs recorded before it"
+                          >
+                            <RotateCcw size={10} /> Retry from here
+                          </button>
+                        )}
                       </div>
+                      {step.childRunId && (
+                        <button
+                          onClick={() => onViewRun?.(step.childRunId!)}
+                          className="flex items-center gap-1 text-[10px] font-medium text-brand-400 hover:text-brand-300 mt-1"
+                        >
+                          <Workflow size={10} /> View sub-workflow run {step.childRunId.slice(0, 8)}...
+                        </button>
+                      )}
+                      {step.signal && (
+                        <div className={`text-[10px] mt-1 ${step.signal.decision === 'approved' ? 'text-emerald-400' : 'text-red-400'}`}>
+                          {step.signal.decision === 'approved' ? 'Approved' : 'Rejected'}{step.signal.actor && ` by ${step.signal.actor}`}
+                          {step.signal.comment && <span className="text-slate-400">: "{step.signal.comment}"</span>}
+                          {step.status === 'waiting' && <span className="text-slate-500"> · resuming...</span>}
+                        </div>
+                      )}
+                      {step.status === 'waiting' && step.waitingFor?.resumeAt && (
+                        <div className="text-[10px] text-lime-400 mt-1">Resumes {new Date(step.waitingFor.resumeAt).toLocaleString()}</div>
+                      )}
+                      {step.status === 'waiting' && !step.signal && step.waitingFor?.kind === 'approval' && (
+                        <div className="mt-2 pt-2 border-t border-slate-700/50 space-y-2">
+                          {step.waitingFor.message && <p className="text-xs text-slate-300">{step.waitingFor.message}</p>}
+                          {step.waitingFor.expiresAt && (
+                            <p className="text-[10px] text-slate-500">Expires {new Date(step.waitingFor.expiresAt).toLocaleString()}</p>
+                          )}
+                          {onSignal && (
+                            <>
+                              <textarea
+                                value={comments[step.id] || ''}
+                                onChange={(e) => setComments(prev => ({ ...prev, [step.id]: e.target.value }))}
+                                placeholder="Comment (optional)"
+                                className="w-full h-14 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-brand-500 resize-none"
+                              />
+                              <div className="flex gap-2">
+                                <button
+                                  onClick={() => handleDecision(step, 'approved')}
+                                  className="flex-1 flex items-center justify-center gap-1 text-xs font-medium text-white bg-emerald-600 hover:bg-emerald-500 rounded py-1"
+                                >
+                                  <ThumbsUp size={12} /> Approve
+                                </button>
+                                <button
+                                  onClick={() => handleDecision(step, 'rejected')}
+                                  className="flex-1 flex items-center justify-center gap-1 text-xs font-medium text-red-300 bg-red-900/30 hover:bg-red-900/50 border border-red-900/50 rounded py-1"
+                                >
+                                  <ThumbsDown size={12} /> Reject
+                                </button>
+                              </div>
+                            </>
+                          )}
+                        </div>
+                      )}
                     </div>
                   </div>
                 ))
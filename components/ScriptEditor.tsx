@@ -0,0 +1,124 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, CheckCircle2, Loader2, ChevronRight, ChevronDown } from 'lucide-react';
+import { ScriptLanguage } from '../types';
+import { checkScript, ScriptDiagnostic } from '../lib/scriptCompiler';
+
+interface ScriptEditorProps {
+  code: string;
+  onChange: (code: string) => void;
+  language: ScriptLanguage;
+  inputType: string; // `interface Input` declaration used for type-checking
+}
+
+const CHECK_DELAY_MS = 400;
+
+// Code textarea with a line gutter. TypeScript sources are type-checked as you type and
+// their diagnostics are marked in the gutter and listed below the editor.
+export const ScriptEditor: React.FC<ScriptEditorProps> = ({ code, onChange, language, inputType }) => {
+  const [diagnostics, setDiagnostics] = useState<ScriptDiagnostic[]>([]);
+  const [status, setStatus] = useState<'idle' | 'checking' | 'failed'>('idle');
+  const [loadError, setLoadError] = useState('');
+  const [showInputType, setShowInputType] = useState(false);
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const isTypeScript = language === 'typescript';
+
+  useEffect(() => {
+    if (!isTypeScript) {
+      setDiagnostics([]);
+      setStatus('idle');
+      return;
+    }
+    let stale = false;
+    setStatus('checking');
+    const timer = setTimeout(() => {
+      checkScript(code, inputType)
+        .then(result => {
+          if (stale) return;
+          setDiagnostics(result);
+          setStatus('idle');
+        })
+        .catch(e => {
+          if (stale) return;
+          setLoadError(e.message || 'Could not load the TypeScript compiler.');
+          setStatus('failed');
+        });
+    }, CHECK_DELAY_MS);
+    return () => {
+      stale = true;
+      clearTimeout(timer);
+    };
+  }, [code, inputType, isTypeScript]);
+
+  const lineCount = code.split('\n').length;
+  const errorLines = new Set(diagnostics.map(d => d.line));
+
+  const jumpTo = (diagnostic: ScriptDiagnostic) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const lines = code.split('\n');
+    const offset = lines.slice(0, diagnostic.line - 1).reduce((sum, line) => sum + line.length + 1, 0) + diagnostic.column - 1;
+    textarea.focus();
+    textarea.setSelectionRange(offset, offset);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="relative h-64 flex bg-slate-950 border border-slate-700 rounded-lg overflow-hidden focus-within:border-pink-500">
+        <div ref={gutterRef} className="w-9 shrink-0 overflow-hidden border-r border-slate-800 py-3 text-right select-none">
+          {Array.from({ length: lineCount }, (_, i) => (
+            <div key={i} className={`pr-2 text-[10px] font-mono leading-relaxed ${errorLines.has(i + 1) ? 'text-red-400 bg-red-500/10' : 'text-slate-600'}`}>
+              {i + 1}
+            </div>
+          ))}
+        </div>
+        <textarea
+          ref={textareaRef}
+          value={code}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={(e) => { if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop; }}
+          className="flex-1 w-full bg-transparent p-3 text-xs font-mono text-pink-300 focus:outline-none resize-none leading-relaxed custom-scrollbar whitespace-pre"
+          spellCheck={false}
+          wrap="off"
+        />
+      </div>
+
+      {isTypeScript && (
+        <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-2 space-y-1">
+          <div className="flex items-center justify-between text-[10px]">
+            {status === 'checking' ? (
+              <span className="flex items-center gap-1 text-slate-500"><Loader2 size={10} className="animate-spin" /> Type-checking...</span>
+            ) : status === 'failed' ? (
+              <span className="flex items-center gap-1 text-amber-400"><AlertTriangle size={10} /> {loadError}</span>
+            ) : diagnostics.length === 0 ? (
+              <span className="flex items-center gap-1 text-emerald-400"><CheckCircle2 size={10} /> No type errors</span>
+            ) : (
+              <span className="flex items-center gap-1 text-red-400"><AlertTriangle size={10} /> {diagnostics.length} problem{diagnostics.length === 1 ? '' : 's'}</span>
+            )}
+            <button onClick={() => setShowInputType(!showInputType)} className="flex items-center gap-0.5 text-slate-500 hover:text-slate-300">
+              {showInputType ? <ChevronDown size={10} /> : <ChevronRight size={10} />} Input type
+            </button>
+          </div>
+          {diagnostics.map((d, i) => (
+            <button
+              key={i}
+              onClick={() => jumpTo(d)}
+              className={`block w-full text-left text-[10px] font-mono hover:bg-slate-800/50 rounded px-1 ${d.category === 'error' ? 'text-red-300' : 'text-amber-300'}`}
+            >
+              <span className="text-slate-500">{d.line}:{d.column}</span> {d.message}
+            </button>
+          ))}
+          {showInputType && (
+            <pre className="text-[10px] font-mono text-blue-300 bg-slate-950 border border-slate-800 rounded p-2 overflow-auto max-h-40 custom-scrollbar">{inputType}</pre>
+          )}
+        </div>
+      )}
+
+      <p className="text-[10px] text-slate-500">
+        {isTypeScript
+          ? 'TypeScript is compiled when you save. `input` is typed from upstream nodes and the test inputs; unknown fields must be checked before use.'
+          : 'Execute raw JS. Return an object to merge it into the workflow payload.'}
+      </p>
+    </div>
+  );
+};
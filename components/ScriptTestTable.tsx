@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Play, Loader2, CheckCircle2, XCircle, FlaskConical } from 'lucide-react';
+import { ScriptTestCase } from '../types';
+import { createScriptTestCase, runScriptTests, ScriptTestResult } from '../lib/scriptTests';
+
+interface ScriptTestTableProps {
+  tests: ScriptTestCase[];
+  onChange: (tests: ScriptTestCase[]) => void;
+  getCode: () => Promise<string>; // JavaScript for the current editor contents
+}
+
+const cellClass = 'w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-[10px] font-mono text-slate-200 focus:outline-none focus:border-brand-500 resize-none custom-scrollbar';
+
+// Fixtures for a SCRIPT node: each row feeds an input to the script and checks the fields of its output
+export const ScriptTestTable: React.FC<ScriptTestTableProps> = ({ tests, onChange, getCode }) => {
+  const [results, setResults] = useState<Record<string, ScriptTestResult>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const [runError, setRunError] = useState('');
+
+  const updateTest = (id: string, patch: Partial<ScriptTestCase>) =>
+    onChange(tests.map(t => t.id === id ? { ...t, ...patch } : t));
+
+  const handleRunAll = async () => {
+    setIsRunning(true);
+    setRunError('');
+    try {
+      const code = await getCode();
+      const outcome = await runScriptTests(code, tests);
+      setResults(Object.fromEntries(outcome.map(r => [r.id, r])));
+    } catch (e: any) {
+      setRunError(e.message || 'Could not run the tests.');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const passed = tests.filter(t => results[t.id]?.passed).length;
+  const ran = tests.filter(t => results[t.id]).length;
+
+  return (
+    <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-1">
+          <FlaskConical size={12} /> Script Tests
+        </label>
+        {ran > 0 && (
+          <span className={`text-[10px] font-medium ${passed === ran ? 'text-emerald-400' : 'text-red-400'}`}>
+            {passed}/{ran} passed
+          </span>
+        )}
+      </div>
+
+      {tests.length === 0 && (
+        <p className="text-[10px] text-slate-500">No fixtures yet. Add one with an input payload and the output fields you expect.</p>
+      )}
+
+      {tests.map((test, index) => {
+        const result = results[test.id];
+        return (
+          <div key={test.id} className={`border rounded-lg p-2 space-y-1.5 ${!result ? 'border-slate-800' : result.passed ? 'border-emerald-500/30' : 'border-red-500/30'}`}>
+            <div className="flex items-center gap-1.5">
+              {result && (result.passed ? <CheckCircle2 size={12} className="text-emerald-400 shrink-0" /> : <XCircle size={12} className="text-red-400 shrink-0" />)}
+              <input
+                value={test.name}
+                onChange={(e) => updateTest(test.id, { name: e.target.value })}
+                placeholder={`Test ${index + 1}`}
+                className="flex-1 bg-transparent text-xs text-slate-200 focus:outline-none"
+              />
+              <button onClick={() => onChange(tests.filter(t => t.id !== test.id))} className="text-slate-600 hover:text-red-400 p-1" title="Remove test">
+                <Trash2 size={12} />
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-1.5">
+              <div>
+                <div className="text-[9px] font-bold text-slate-500 uppercase mb-0.5">Input</div>
+                <textarea value={test.input} onChange={(e) => updateTest(test.id, { input: e.target.value })} className={`${cellClass} h-16`} spellCheck={false} />
+              </div>
+              <div>
+                <div className="text-[9px] font-bold text-slate-500 uppercase mb-0.5">Expected Output</div>
+                <textarea value={test.expected} onChange={(e) => updateTest(test.id, { expected: e.target.value })} className={`${cellClass} h-16`} spellCheck={false} />
+              </div>
+            </div>
+            {result && !result.passed && result.failures.map((failure, i) => (
+              <div key={i} className="text-[10px] font-mono text-red-300">{failure}</div>
+            ))}
+            {result && result.console.map((line, i) => (
+              <div key={i} className="text-[10px] font-mono text-slate-500">console: {line}</div>
+            ))}
+          </div>
+        );
+      })}
+
+      {runError && <div className="text-[10px] text-red-400">{runError}</div>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => onChange([...tests, createScriptTestCase(tests.length)])}
+          className="flex-1 flex items-center justify-center gap-1 text-xs text-slate-300 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg py-1.5"
+        >
+          <Plus size={12} /> Add Test
+        </button>
+        <button
+          onClick={handleRunAll}
+          disabled={isRunning || tests.length === 0}
+          className="flex-1 flex items-center justify-center gap-1 text-xs text-white bg-pink-600 hover:bg-pink-500 disabled:opacity-50 rounded-lg py-1.5"
+        >
+          {isRunning ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} />} Run All Tests
+        </button>
+      </div>
+      <p className="text-[10px] text-slate-500">Only the fields listed in the expected output are compared. Tests are saved with the node.</p>
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { VariableSuggestion } from '../lib/variables';
+
+// The field variables are inserted into when they are clicked in the variable list
+export interface InsertTarget {
+  insert: (expression: string) => void;
+}
+
+interface TemplateVariablesValue {
+  suggestions: VariableSuggestion[];
+  target: { current: InsertTarget | null }; // The last focused field
+}
+
+export const TemplateVariablesContext = createContext<TemplateVariablesValue>({ suggestions: [], target: { current: null } });
+
+interface TemplateInputProps {
+  value: any;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  multiline?: boolean;
+  rows?: number;
+  className?: string;
+  type?: string;
+  invalid?: boolean;
+}
+
+const MAX_MATCHES = 8;
+
+// The {{ reference being typed at the caret, e.g. 'steps.fetch.da' in "Total: {{steps.fetch.da"
+const getOpenReference = (text: string, caret: number) => {
+  const before = text.slice(0, caret);
+  const start = before.lastIndexOf('{{');
+  if (start < 0 || before.includes('}}', start)) return null;
+  const partial = before.slice(start + 2).trimStart();
+  // Filters, defaults and other expressions are past the point where a path helps
+  if (/[\s|?(]/.test(partial)) return null;
+  return { start, partial };
+};
+
+const findMatches = (suggestions: VariableSuggestion[], partial: string) => {
+  const query = partial.toLowerCase();
+  const matching = suggestions.filter(s => s.expression.toLowerCase().includes(query) && s.expression !== partial);
+  return [
+    ...matching.filter(s => s.expression.toLowerCase().startsWith(query)),
+    ...matching.filter(s => !s.expression.toLowerCase().startsWith(query))
+  ].slice(0, MAX_MATCHES);
+};
+
+// A text input that completes {{ }} references from the variables available at the node, and
+// receives the variables clicked in the variable list while it is the last focused field
+export const TemplateInput: React.FC<TemplateInputProps> = ({ value, onChange, placeholder, multiline, rows = 3, className = '', type = 'text', invalid }) => {
+  const { suggestions, target } = useContext(TemplateVariablesContext);
+  const ref = useRef<any>(null);
+  const [caret, setCaret] = useState<number | null>(null); // null while another element has focus
+  const [highlight, setHighlight] = useState(0);
+  const text = value === undefined || value === null ? '' : String(value);
+
+  // Read by the insert target, which outlives the render it was created in
+  const latest = useRef({ text, onChange });
+  latest.current = { text, onChange };
+
+  const reference = caret === null ? null : getOpenReference(text, caret);
+  const matches = reference ? findMatches(suggestions, reference.partial) : [];
+
+  const replaceRange = (from: number, to: number, insertion: string) => {
+    const current = latest.current.text;
+    latest.current.onChange(current.slice(0, from) + insertion + current.slice(to));
+    const position = from + insertion.length;
+    // Move the caret once the new value is rendered
+    setTimeout(() => {
+      ref.current?.focus();
+      ref.current?.setSelectionRange(position, position);
+      setCaret(position);
+    });
+  };
+
+  const accept = (suggestion: VariableSuggestion) => {
+    if (!reference || caret === null) return;
+    const closed = text.slice(caret).startsWith('}}');
+    replaceRange(reference.start, closed ? caret + 2 : caret, `{{${suggestion.expression}}}`);
+    setHighlight(0);
+  };
+
+  const insertTarget = useRef<InsertTarget>({
+    insert: (expression) => {
+      const element = ref.current;
+      const end = latest.current.text.length;
+      replaceRange(element?.selectionStart ?? end, element?.selectionEnd ?? end, `{{${expression}}}`);
+    }
+  });
+
+  useEffect(() => () => {
+    if (target.current === insertTarget.current) target.current = null;
+  }, [target]);
+
+  const handleKeyDown = (e: any) => {
+    if (matches.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlight((highlight + step + matches.length) % matches.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      accept(matches[Math.min(highlight, matches.length - 1)]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setCaret(null);
+    }
+  };
+
+  const fieldProps = {
+    ref,
+    value: text,
+    placeholder,
+    onChange: (e: any) => {
+      onChange(e.target.value);
+      setCaret(e.target.selectionStart);
+      setHighlight(0);
+    },
+    onSelect: (e: any) => setCaret(e.target.selectionStart),
+    onFocus: (e: any) => {
+      target.current = insertTarget.current;
+      setCaret(e.target.selectionStart);
+    },
+    onBlur: () => setCaret(null),
+    onKeyDown: handleKeyDown,
+    className: `w-full bg-slate-950 border ${invalid ? 'border-red-500/60' : 'border-slate-700'} rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-brand-500 transition-colors placeholder-slate-600 ${className}`
+  };
+
+  return (
+    <div className="relative">
+      {multiline ? <textarea {...fieldProps} rows={rows} /> : <input {...fieldProps} type={type} autoComplete="off" />}
+      {matches.length > 0 && (
+        <ul className="absolute z-30 left-0 right-0 mt-1 max-h-48 overflow-y-auto bg-slate-900 border border-slate-700 rounded-lg shadow-xl py-1">
+          {matches.map((s, i) => (
+            <li
+              key={s.expression}
+              // Keeps the focus (and the caret) in the field
+              onMouseDown={(e) => { e.preventDefault(); accept(s); }}
+              onMouseEnter={() => setHighlight(i)}
+              className={`px-2 py-1 cursor-pointer ${i === highlight ? 'bg-slate-800' : ''}`}
+            >
+              <div className="flex justify-between gap-2 text-[10px]">
+                <code className="text-emerald-400 truncate">{s.expression}</code>
+                <span className="text-slate-500 shrink-0">{s.type}</span>
+              </div>
+              <div className="text-[10px] text-slate-600 truncate">
+                {s.step}{s.sample !== undefined ? ` · ${s.sample}` : s.description ? ` · ${s.description}` : ''}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
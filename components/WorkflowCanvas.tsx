@@ -1,7 +1,8 @@
 
 import React, { useEffect, useState, useRef, useCallback } from 'react';
 import { WorkflowNode, WorkflowEdge, NodeType, RunLog } from '../types';
-import { Zap, Mail, MessageSquare, ShoppingCart, Database, Brain, Play, Save, Settings2, Loader2, CheckCircle2, XCircle, GitFork, Plus, Trash2, X, FileCode, Globe, Download, MousePointer2, ZoomIn, ZoomOut, Maximize, Eraser } from 'lucide-react';
+import { Zap, Mail, MessageSquare, ShoppingCart, Database, Brain, Play, Save, Settings2, Loader2, CheckCircle2, XCircle, GitFork, Plus, Trash2, X, FileCode, Globe, Download, MousePointer2, ZoomIn, ZoomOut, Maximize, Eraser, GitMerge, Repeat, Split, Workflow, UserCheck, Hourglass, Timer, CalendarClock } from 'lucide-react';
+import { LOOP_BODY_LABEL, ERROR_EDGE_LABEL, SWITCH_DEFAULT_LABEL, APPROVAL_OUTCOMES, APPROVAL_EXPIRED_LABEL, getSwitchCases } from '../lib/workflowUtils';
 import { NodeConfigPanel } from './NodeConfigPanel';
 import { useToast } from '../store/ToastContext';
 
@@ -14,12 +15,20 @@ interface WorkflowCanvasProps {
   onUpdateNodes?: (nodes: WorkflowNode[]) => void;
   onUpdateEdges?: (edges: WorkflowEdge[]) => void;
   activeRun?: RunLog | null;
+  workflowId?: string;
 }
 
 const getIcon = (service: string, type: NodeType) => {
   if (type === NodeType.CONDITION) return GitFork;
   if (type === NodeType.SCRIPT) return FileCode;
+  if (type === NodeType.MERGE) return GitMerge;
+  if (type === NodeType.FOREACH) return Repeat;
+  if (type === NodeType.SWITCH) return Split;
+  if (type === NodeType.SUBWORKFLOW) return Workflow;
+  if (type === NodeType.APPROVAL) return UserCheck;
+  if (type === NodeType.DELAY) return Timer;
   const s = service.toLowerCase();
+  if (s === 'schedule') return CalendarClock;
   if (s === 'http' || s === 'webhook') return Globe;
   if (s.includes('gmail') || s.includes('mail')) return Mail;
   if (s.includes('slack') || s.includes('discord')) return MessageSquare;
@@ -36,6 +45,12 @@ const getNodeColor = (type: NodeType) => {
     case NodeType.CONDITION: return 'border-amber-500 shadow-amber-500/20';
     case NodeType.AI: return 'border-purple-500 shadow-purple-500/20';
     case NodeType.SCRIPT: return 'border-pink-500 shadow-pink-500/20';
+    case NodeType.MERGE: return 'border-teal-500 shadow-teal-500/20';
+    case NodeType.FOREACH: return 'border-cyan-500 shadow-cyan-500/20';
+    case NodeType.SWITCH: return 'border-orange-500 shadow-orange-500/20';
+    case NodeType.SUBWORKFLOW: return 'border-sky-500 shadow-sky-500/20';
+    case NodeType.APPROVAL: return 'border-yellow-500 shadow-yellow-500/20';
+    case NodeType.DELAY: return 'border-lime-500 shadow-lime-500/20';
     default: return 'border-slate-600';
   }
 };
@@ -47,12 +62,18 @@ const getNodeBg = (type: NodeType) => {
     case NodeType.CONDITION: return 'from-amber-500/20 to-amber-600/5';
     case NodeType.AI: return 'from-purple-500/20 to-purple-600/5';
     case NodeType.SCRIPT: return 'from-pink-500/20 to-pink-600/5';
+    case NodeType.MERGE: return 'from-teal-500/20 to-teal-600/5';
+    case NodeType.FOREACH: return 'from-cyan-500/20 to-cyan-600/5';
+    case NodeType.SWITCH: return 'from-orange-500/20 to-orange-600/5';
+    case NodeType.SUBWORKFLOW: return 'from-sky-500/20 to-sky-600/5';
+    case NodeType.APPROVAL: return 'from-yellow-500/20 to-yellow-600/5';
+    case NodeType.DELAY: return 'from-lime-500/20 to-lime-600/5';
     default: return 'from-slate-700/50 to-slate-800/50';
   }
 }
 
 export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({ 
-    nodes, edges, onSave, onSimulate, readOnly, onUpdateNodes, onUpdateEdges, activeRun 
+    nodes, edges, onSave, onSimulate, readOnly, onUpdateNodes, onUpdateEdges, activeRun, workflowId
 }) => {
   const { addToast } = useToast();
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
@@ -258,6 +279,34 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
              label = hasTrue ? 'false' : 'true';
           }
 
+          if (sourceNode?.type === NodeType.SWITCH) {
+             // Each connection takes the next case without a path, then the default path
+             const usedLabels = edges.filter(e => e.source === connectingSourceId).map(e => e.label?.toLowerCase());
+             label = getSwitchCases(sourceNode).find(c => c && !usedLabels.includes(c.toLowerCase())) ?? SWITCH_DEFAULT_LABEL;
+          }
+
+          if (sourceNode?.type === NodeType.APPROVAL) {
+             // Approved first, then rejected, then expired when the approval can expire
+             const usedLabels = edges.filter(e => e.source === connectingSourceId).map(e => e.label?.toLowerCase() || 'approved');
+             label = APPROVAL_OUTCOMES
+                 .filter(o => o !== APPROVAL_EXPIRED_LABEL || sourceNode.config?.expiresAfter)
+                 .find(o => !usedLabels.includes(o));
+          }
+
+          if (sourceNode?.onError?.mode === 'route') {
+             // Once the success path exists, the next connection becomes the error route
+             const existingEdges = edges.filter(e => e.source === connectingSourceId);
+             const hasErrorPath = existingEdges.some(e => e.label === ERROR_EDGE_LABEL);
+             const hasSuccessPath = existingEdges.some(e => e.label !== ERROR_EDGE_LABEL);
+             if (hasSuccessPath && !hasErrorPath) label = ERROR_EDGE_LABEL;
+          }
+
+          if (sourceNode?.type === NodeType.FOREACH) {
+             // First connection enters the loop body, the next one continues after the loop
+             const hasBody = edges.some(e => e.source === connectingSourceId && e.label === LOOP_BODY_LABEL);
+             label = hasBody ? 'done' : LOOP_BODY_LABEL;
+          }
+
           const newEdge: WorkflowEdge = {
               id: `e-${Date.now()}`,
               source: connectingSourceId,
@@ -306,7 +355,7 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
       addToast('success', 'Workflow exported to JSON');
   };
 
-  const getNodeStatus = (nodeId: string): 'pending' | 'running' | 'success' | 'failed' | 'idle' => {
+  const getNodeStatus = (nodeId: string): 'pending' | 'running' | 'success' | 'failed' | 'cancelled' | 'waiting' | 'idle' => {
       if (!activeRun) return 'idle';
       const step = activeRun.steps.find(s => s.nodeId === nodeId);
       if (step) return step.status;
@@ -444,7 +493,7 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
                         {edge.label && (
                             <g transform={`translate(${midX}, ${midY})`}>
                                 <rect x="-20" y="-10" width="40" height="20" rx="4" fill="#0f172a" stroke="#334155" />
-                                <text y="4" textAnchor="middle" fontSize="10" fill={edge.label === 'true' ? '#10b981' : edge.label === 'false' ? '#ef4444' : '#94a3b8'} fontWeight="bold">
+                                <text y="4" textAnchor="middle" fontSize="10" fill={edge.label === 'true' ? '#10b981' : edge.label === 'false' || edge.label === ERROR_EDGE_LABEL ? '#ef4444' : edge.label === LOOP_BODY_LABEL ? '#22d3ee' : '#94a3b8'} fontWeight="bold">
                                     {edge.label.toUpperCase()}
                                 </text>
                             </g>
@@ -489,6 +538,8 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
                         statusBorder = 'border-emerald-500 shadow-[0_0_15px_rgba(16,185,129,0.3)]';
                     } else if (status === 'failed') {
                         statusBorder = 'border-red-500 shadow-[0_0_15px_rgba(239,68,68,0.3)]';
+                    } else if (status === 'waiting') {
+                        statusBorder = 'border-yellow-500 shadow-[0_0_15px_rgba(234,179,8,0.3)]';
                     }
 
                     return (
@@ -513,6 +564,7 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
                                     {status === 'running' && <Loader2 size={14} className="animate-spin text-blue-400"/>}
                                     {status === 'success' && <CheckCircle2 size={14} className="text-emerald-400"/>}
                                     {status === 'failed' && <XCircle size={14} className="text-red-400"/>}
+                                    {status === 'waiting' && <Hourglass size={14} className="text-yellow-400"/>}
                                     <div className="px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider bg-slate-800 text-slate-400">
                                     {node.type}
                                     </div>
@@ -554,6 +606,7 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
           node={nodes.find(n => n.id === selectedNodeId) || null} 
           nodes={nodes}
           edges={edges}
+          workflowId={workflowId}
           onClose={() => setSelectedNodeId(null)} 
           onUpdate={handleNodeUpdate}
           onDelete={handleNodeDelete}
@@ -24,7 +24,7 @@ export const MOCK_WORKFLOWS: Workflow[] = [
     createdAt: timeAgo(10000),
     nodes: [
         { id: '1', type: NodeType.TRIGGER, service: 'typeform', label: 'New Submission', x: 100, y: 200, config: {} },
-        { id: '2', type: NodeType.ACTION, service: 'slack', label: 'Send Message', x: 400, y: 200, config: { channel: '#sales' } }
+        { id: '2', type: NodeType.ACTION, service: 'slack', label: 'Send Message', x: 400, y: 200, config: { channel: '#sales', message: 'New lead: {{email}}' } }
     ], 
     edges: [{ id: 'e1', source: '1', target: '2' }],
     stats: { runs: 1240, successRate: 99.2 }
@@ -36,10 +36,10 @@ export const MOCK_WORKFLOWS: Workflow[] = [
     status: 'paused',
     createdAt: timeAgo(20000),
     nodes: [
-        { id: '1', type: NodeType.TRIGGER, service: 'system', label: 'Every Friday', x: 100, y: 200, config: {} },
-        { id: '2', type: NodeType.ACTION, service: 'sheets', label: 'Get Rows', x: 350, y: 200, config: {} },
+        { id: '1', type: NodeType.TRIGGER, service: 'schedule', label: 'Every Friday', x: 100, y: 200, config: { cron: '0 9 * * FRI', catchUp: 'latest' } },
+        { id: '2', type: NodeType.ACTION, service: 'sheets', operation: 'getRows', label: 'Get Rows', x: 350, y: 200, config: { spreadsheetId: 'weekly-sales' } },
         { id: '3', type: NodeType.AI, service: 'gemini', label: 'Summarize', x: 600, y: 200, config: {} },
-        { id: '4', type: NodeType.ACTION, service: 'gmail', label: 'Send Email', x: 850, y: 200, config: {} }
+        { id: '4', type: NodeType.ACTION, service: 'gmail', label: 'Send Email', x: 850, y: 200, config: { to: 'team@example.com', subject: 'Weekly report', body: '{{aiResult}}' } }
     ],
     edges: [
         { id: 'e1', source: '1', target: '2' },
@@ -57,8 +57,8 @@ export const MOCK_WORKFLOWS: Workflow[] = [
       nodes: [
           { id: '1', type: NodeType.TRIGGER, service: 'shopify', label: 'New Order', x: 50, y: 250, config: {} },
           { id: '2', type: NodeType.CONDITION, service: 'system', label: 'Value > $100', x: 300, y: 250, config: { variable: 'totalValue', operator: '>', threshold: 100 } },
-          { id: '3', type: NodeType.ACTION, service: 'slack', label: 'Alert VIP Channel', x: 600, y: 150, config: { channel: '#vip-orders' } },
-          { id: '4', type: NodeType.ACTION, service: 'sheets', label: 'Log Standard Order', x: 600, y: 350, config: {} }
+          { id: '3', type: NodeType.ACTION, service: 'slack', label: 'Alert VIP Channel', x: 600, y: 150, config: { channel: '#vip-orders', message: 'VIP order {{orderId}}: ${{totalValue}}' } },
+          { id: '4', type: NodeType.ACTION, service: 'sheets', operation: 'appendRow', label: 'Log Standard Order', x: 600, y: 350, config: { spreadsheetId: 'orders', values: '{ "Order": "{{orderId}}", "Total": "{{totalValue}}" }' } }
       ],
       edges: [
           { id: 'e1', source: '1', target: '2' },
@@ -78,8 +78,8 @@ export const MOCK_TEMPLATES: Template[] = [
     popularity: 5,
     nodes: [
       { id: '1', type: NodeType.TRIGGER, service: 'shopify', label: 'Cart Abandoned', x: 100, y: 200, config: {} },
-      { id: '2', type: NodeType.ACTION, service: 'system', label: 'Wait 1 Hour', x: 350, y: 200, config: {} },
-      { id: '3', type: NodeType.ACTION, service: 'gmail', label: 'Send Email', x: 600, y: 200, config: {} }
+      { id: '2', type: NodeType.DELAY, service: 'system', label: 'Wait 1 Hour', x: 350, y: 200, config: { mode: 'for', duration: '1h' } },
+      { id: '3', type: NodeType.ACTION, service: 'gmail', label: 'Send Email', x: 600, y: 200, config: { to: '{{customerEmail}}', subject: 'You left something in your cart' } }
     ],
     edges: [
       { id: 'e1', source: '1', target: '2' },
@@ -95,7 +95,7 @@ export const MOCK_TEMPLATES: Template[] = [
     nodes: [
       { id: '1', type: NodeType.TRIGGER, service: 'zoom', label: 'New Recording', x: 100, y: 200, config: {} },
       { id: '2', type: NodeType.AI, service: 'gemini', label: 'Summarize Text', x: 350, y: 200, config: {} },
-      { id: '3', type: NodeType.ACTION, service: 'notion', label: 'Create Page', x: 600, y: 200, config: {} }
+      { id: '3', type: NodeType.ACTION, service: 'notion', label: 'Create Page', x: 600, y: 200, config: { databaseId: 'meeting-notes', title: 'Meeting summary', content: '{{aiResult}}' } }
     ],
     edges: [
       { id: 'e1', source: '1', target: '2' },
@@ -142,7 +142,7 @@ export const MOCK_TEMPLATES: Template[] = [
         { id: '1', type: NodeType.TRIGGER, service: 'zendesk', label: 'New Ticket', x: 50, y: 250, config: {} },
         { id: '2', type: NodeType.AI, service: 'gemini', label: 'Analyze Sentiment', x: 300, y: 250, config: {} },
         { id: '3', type: NodeType.CONDITION, service: 'system', label: 'Is Negative?', x: 550, y: 250, config: { variable: 'sentiment', operator: '==', threshold: 'negative' } },
-        { id: '4', type: NodeType.ACTION, service: 'slack', label: 'Alert Manager', x: 800, y: 150, config: {} },
+        { id: '4', type: NodeType.ACTION, service: 'slack', label: 'Alert Manager', x: 800, y: 150, config: { channel: '#support', message: 'Negative ticket: {{aiResult}}' } },
         { id: '5', type: NodeType.ACTION, service: 'zendesk', label: 'Add Tag', x: 800, y: 350, config: {} }
     ],
     edges: [
@@ -161,9 +161,9 @@ export const MOCK_TEMPLATES: Template[] = [
     nodes: [
         { id: '1', type: NodeType.TRIGGER, service: 'bamboo', label: 'New Employee', x: 100, y: 250, config: {} },
         { id: '2', type: NodeType.AI, service: 'gemini', label: 'Draft Welcome Email', x: 350, y: 250, config: {} },
-        { id: '3', type: NodeType.ACTION, service: 'gmail', label: 'Send Email', x: 600, y: 150, config: {} },
-        { id: '4', type: NodeType.ACTION, service: 'slack', label: 'Create User', x: 600, y: 350, config: {} },
-        { id: '5', type: NodeType.ACTION, service: 'github', label: 'Invite to Org', x: 850, y: 350, config: {} }
+        { id: '3', type: NodeType.ACTION, service: 'gmail', label: 'Send Email', x: 600, y: 150, config: { to: '{{email}}', subject: 'Welcome aboard!', body: '{{aiResult}}' } },
+        { id: '4', type: NodeType.ACTION, service: 'slack', label: 'Create User', x: 600, y: 350, config: { message: 'Please welcome {{name}} to the team!' } },
+        { id: '5', type: NodeType.ACTION, service: 'github', operation: 'inviteMember', label: 'Invite to Org', x: 850, y: 350, config: { organization: 'acme', username: '{{githubUsername}}' } }
     ],
     edges: [
         { id: 'e1', source: '1', target: '2' },
@@ -183,15 +183,18 @@ export const MOCK_TEMPLATES: Template[] = [
         { id: '2', type: NodeType.CONDITION, service: 'system', label: 'Amount > 500?', x: 300, y: 250, config: { variable: 'amount', operator: '>', threshold: 500 } },
         { id: '3', type: NodeType.ACTION, service: 'slack', label: 'Request Approval', x: 600, y: 150, config: { message: 'Approve expense: {{id}}' } },
         { id: '4', type: NodeType.ACTION, service: 'quickbooks', label: 'Pay Expense', x: 600, y: 350, config: {} },
-        { id: '5', type: NodeType.ACTION, service: 'webhook', label: 'Wait for Approval', x: 850, y: 150, config: {} },
-        { id: '6', type: NodeType.ACTION, service: 'quickbooks', label: 'Pay Expense', x: 1100, y: 150, config: {} }
+        { id: '5', type: NodeType.APPROVAL, service: 'system', label: 'Wait for Approval', x: 850, y: 150, config: { message: 'Approve expense {{id}} for ${{amount}}?', expiresAfter: '3d' } },
+        { id: '6', type: NodeType.ACTION, service: 'quickbooks', label: 'Pay Expense', x: 1100, y: 50, config: {} },
+        { id: '7', type: NodeType.ACTION, service: 'slack', label: 'Notify Submitter', x: 1100, y: 250, config: { message: "Expense {{id}} was {{approval.decision}}. {{ approval.comment ?? '' }}" } }
     ],
     edges: [
         { id: 'e1', source: '1', target: '2' },
         { id: 'e2', source: '2', target: '3', label: 'true' },
         { id: 'e3', source: '2', target: '4', label: 'false' },
         { id: 'e4', source: '3', target: '5' },
-        { id: 'e5', source: '5', target: '6' }
+        { id: 'e5', source: '5', target: '6', label: 'approved' },
+        { id: 'e6', source: '5', target: '7', label: 'rejected' },
+        { id: 'e7', source: '5', target: '7', label: 'expired' }
     ]
   },
   {
@@ -204,7 +207,7 @@ export const MOCK_TEMPLATES: Template[] = [
         { id: '1', type: NodeType.TRIGGER, service: 'gmail', label: 'New Attachment', x: 50, y: 250, config: {} },
         { id: '2', type: NodeType.AI, service: 'gemini', label: 'Analyze Risk', x: 300, y: 250, config: { prompt: "Identify liability clauses." } },
         { id: '3', type: NodeType.CONDITION, service: 'system', label: 'High Risk?', x: 550, y: 250, config: { variable: 'riskLevel', operator: '==', threshold: 'HIGH' } },
-        { id: '4', type: NodeType.ACTION, service: 'slack', label: 'Alert Legal Team', x: 800, y: 150, config: {} },
+        { id: '4', type: NodeType.ACTION, service: 'slack', label: 'Alert Legal Team', x: 800, y: 150, config: { channel: '#legal', message: 'High-risk contract: {{aiResult}}' } },
         { id: '5', type: NodeType.ACTION, service: 'dropbox', label: 'Save to Archive', x: 800, y: 350, config: {} }
     ],
     edges: [
@@ -225,7 +228,7 @@ export const MOCK_TEMPLATES: Template[] = [
         { id: '2', type: NodeType.AI, service: 'gemini', label: 'Detect Intent', x: 300, y: 250, config: {} },
         { id: '3', type: NodeType.CONDITION, service: 'system', label: 'Is Question?', x: 550, y: 250, config: { variable: 'intent', operator: '==', threshold: 'question' } },
         { id: '4', type: NodeType.AI, service: 'gemini', label: 'Draft Reply', x: 800, y: 150, config: {} },
-        { id: '5', type: NodeType.ACTION, service: 'slack', label: 'Request Approval', x: 1050, y: 150, config: {} },
+        { id: '5', type: NodeType.ACTION, service: 'slack', label: 'Request Approval', x: 1050, y: 150, config: { channel: '#social', message: 'Reply draft: {{aiResult}}' } },
         { id: '6', type: NodeType.ACTION, service: 'twitter', label: 'Like Tweet', x: 800, y: 350, config: {} }
     ],
     edges: [
@@ -323,11 +326,18 @@ CREATE TABLE workflows (
 CREATE TABLE runs (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   workflow_id UUID REFERENCES workflows(id),
-  status TEXT CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+  status TEXT CHECK (status IN ('pending', 'running', 'waiting', 'success', 'failed', 'cancelled', 'interrupted')),
   started_at TIMESTAMPTZ DEFAULT NOW(),
   completed_at TIMESTAMPTZ,
+  checkpoint_at TIMESTAMPTZ, -- Refreshed while the run executes; stale 'running' rows are recovered
+  input JSONB, -- Trigger payload, needed to resume the run
   logs JSONB, -- Array of step results
-  error_details TEXT
+  error_details TEXT,
+  resumed_from JSONB, -- { runId, nodeId, nodeLabel } when retried from a step of an earlier run
+  parent_run JSONB, -- { runId, stepId, nodeLabel, workflowName, callChain } for sub-workflow runs
+  output JSONB, -- Final context of a successful run
+  delivery JSONB, -- { id, method, path, headers, query, signature, ... } for runs started by a webhook
+  host TEXT -- 'webhooks' or 'api' for runs started by a local server, which continues them after a wait
 );
 
 -- Connections: Oauth tokens (Encrypted)
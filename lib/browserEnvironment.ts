@@ -0,0 +1,37 @@
+// How the app runs workflows inside the browser tab: Gemini for AI nodes, scripts in a Web Worker,
+// simulated latency so runs can be followed on the canvas, and a fallback for requests the browser
+// blocks. Node hosts build their own environment (see server/nodeEnvironment.ts).
+import { EngineEnvironment, DEFAULT_ENVIRONMENT } from './workflowEngine';
+import { OperationHandler } from './connectorSdk';
+import { defaultConnectors, httpConnector } from './connectors';
+import { runScriptInSandbox } from './scriptSandbox';
+import { performAIAction } from '../services/geminiService';
+
+// Client-side fetch limitation: CORS
+// In a real SaaS, this runs server-side (Node.js/Go) where CORS doesn't apply.
+// For this demo, we can only fetch CORS-enabled APIs, so test/dummy URLs simulate success.
+const withCorsFallback = (request: OperationHandler): OperationHandler => async (config, context) => {
+  try {
+    return await request(config, context);
+  } catch (e: any) {
+    if (!e.message.includes('Failed to fetch') && !e.message.includes('NetworkError')) throw e;
+    context.logs.push(`⚠️ Network/CORS Error detected (Client-side limitation).`);
+    if (!config.url.includes('api.example.com') && !config.url.includes('localhost')) throw e;
+    context.logs.push(`Simulating success for test/dummy URL.`);
+    return { data: { success: true, simulated: true }, status: 200 };
+  }
+};
+
+export const browserEnvironment: EngineEnvironment = {
+  ...DEFAULT_ENVIRONMENT,
+  connectors: defaultConnectors.extend([{
+    ...httpConnector,
+    implementation: {
+      ...httpConnector.implementation,
+      actions: { request: withCorsFallback(httpConnector.implementation.actions.request) }
+    }
+  }]),
+  runScript: runScriptInSandbox,
+  generateText: performAIAction,
+  simulateLatency: true
+};
@@ -0,0 +1,13 @@
+// Time as the engine sees it. Hosts can pass their own clock, e.g. a fake one in tests that
+// advances instantly instead of waiting for retries and delays.
+export interface Clock {
+  now(): number; // Epoch milliseconds
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>)
+};
@@ -0,0 +1,245 @@
+import { ConditionGroup, ConditionRule, ConditionOperator, MissingVariableMode } from '../types';
+import { lookupExpression, renderTemplate } from './expressions';
+import { ExpressionError } from './errors';
+
+interface OperatorInfo {
+  value: ConditionOperator;
+  label: string;
+  needsValue: boolean;
+}
+
+// Offered in the rule builder, in display order
+export const CONDITION_OPERATORS: OperatorInfo[] = [
+  { value: 'equals', label: 'equals', needsValue: true },
+  { value: 'not_equals', label: 'does not equal', needsValue: true },
+  { value: 'gt', label: '>', needsValue: true },
+  { value: 'gte', label: '>=', needsValue: true },
+  { value: 'lt', label: '<', needsValue: true },
+  { value: 'lte', label: '<=', needsValue: true },
+  { value: 'contains', label: 'contains', needsValue: true },
+  { value: 'not_contains', label: 'does not contain', needsValue: true },
+  { value: 'starts_with', label: 'starts with', needsValue: true },
+  { value: 'ends_with', label: 'ends with', needsValue: true },
+  { value: 'matches', label: 'matches regex', needsValue: true },
+  { value: 'in', label: 'is one of', needsValue: true },
+  { value: 'not_in', label: 'is not one of', needsValue: true },
+  { value: 'is_empty', label: 'is empty', needsValue: false },
+  { value: 'is_not_empty', label: 'is not empty', needsValue: false },
+  { value: 'exists', label: 'exists', needsValue: false },
+  { value: 'not_exists', label: 'does not exist', needsValue: false },
+  { value: 'before', label: 'is before (date)', needsValue: true },
+  { value: 'after', label: 'is after (date)', needsValue: true },
+];
+
+const operatorInfo = (operator: ConditionOperator) => CONDITION_OPERATORS.find(o => o.value === operator);
+
+// Operators that are meaningful for a missing variable, so onMissing does not apply to them
+const MISSING_AWARE: ConditionOperator[] = ['exists', 'not_exists', 'is_empty', 'is_not_empty'];
+
+// Operators of the original single-rule form ({ variable, operator, threshold })
+const LEGACY_OPERATORS: Record<string, ConditionOperator> = {
+  '>': 'gt', '>=': 'gte', '<': 'lt', '<=': 'lte', '==': 'equals', '!=': 'not_equals', 'contains': 'contains'
+};
+
+export const isConditionGroup = (item: ConditionRule | ConditionGroup): item is ConditionGroup =>
+  Array.isArray((item as ConditionGroup).rules);
+
+export const createConditionId = () => `cond-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const createConditionRule = (): ConditionRule => ({ id: createConditionId(), variable: '', operator: 'equals', value: '' });
+
+export const createConditionGroup = (combinator: 'and' | 'or' = 'and'): ConditionGroup => ({
+  id: createConditionId(), combinator, rules: [createConditionRule()]
+});
+
+// The rule tree of a CONDITION node. Nodes saved before rule groups existed are read as a one-rule group.
+export const getConditionGroup = (config: Record<string, any> = {}): ConditionGroup => {
+  if (config.conditions && isConditionGroup(config.conditions)) return config.conditions;
+  return {
+    id: 'root',
+    combinator: 'and',
+    rules: config.variable ? [{
+      id: 'legacy',
+      variable: String(config.variable),
+      operator: LEGACY_OPERATORS[config.operator || '>'] || 'equals',
+      value: config.threshold === undefined ? '' : String(config.threshold)
+    }] : []
+  };
+};
+
+// --- Comparison ---
+
+const isMissing = (value: any) => value === undefined || value === null;
+
+const isEmpty = (value: any) => isMissing(value)
+  || value === ''
+  || (Array.isArray(value) && value.length === 0)
+  || (typeof value === 'object' && !(value instanceof Date) && Object.keys(value).length === 0);
+
+const toNumber = (value: any): number | null => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  return null;
+};
+
+const toTime = (value: any): number | null => {
+  if (value === 'now') return Date.now();
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'number') return value;
+  const time = Date.parse(String(value));
+  return isNaN(time) ? null : time;
+};
+
+const toText = (value: any) => typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+
+// Numbers compare as numbers and booleans as booleans; everything else compares as text
+const looselyEquals = (actual: any, expected: string) => {
+  const actualNumber = toNumber(actual);
+  const expectedNumber = toNumber(expected);
+  if (actualNumber !== null && expectedNumber !== null) return actualNumber === expectedNumber;
+  if (typeof actual === 'boolean') return String(actual) === expected.trim().toLowerCase();
+  return toText(actual) === expected;
+};
+
+const splitList = (value: string) => value.split(',').map(v => v.trim()).filter(v => v !== '');
+
+// Returns the result, or a reason string when the value has the wrong type for the operator
+const compare = (actual: any, operator: ConditionOperator, expected: string): boolean | string => {
+  switch (operator) {
+    case 'equals': return looselyEquals(actual, expected);
+    case 'not_equals': return !looselyEquals(actual, expected);
+    case 'gt': case 'gte': case 'lt': case 'lte': {
+      const a = toNumber(actual);
+      const b = toNumber(expected);
+      if (a === null) return `${toText(actual)} is not a number`;
+      if (b === null) return `'${expected}' is not a number`;
+      return operator === 'gt' ? a > b : operator === 'gte' ? a >= b : operator === 'lt' ? a < b : a <= b;
+    }
+    case 'contains': case 'not_contains': {
+      const found = Array.isArray(actual)
+        ? actual.some(item => looselyEquals(item, expected))
+        : toText(actual).includes(expected);
+      return operator === 'contains' ? found : !found;
+    }
+    case 'starts_with': return toText(actual).startsWith(expected);
+    case 'ends_with': return toText(actual).endsWith(expected);
+    case 'matches': {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(expected);
+      } catch (e: any) {
+        throw new ExpressionError(`Invalid regex '${expected}': ${e.message}`);
+      }
+      return pattern.test(toText(actual));
+    }
+    case 'in': return splitList(expected).some(option => looselyEquals(actual, option));
+    case 'not_in': return !splitList(expected).some(option => looselyEquals(actual, option));
+    case 'is_empty': return isEmpty(actual);
+    case 'is_not_empty': return !isEmpty(actual);
+    case 'exists': return !isMissing(actual);
+    case 'not_exists': return isMissing(actual);
+    case 'before': case 'after': {
+      const a = toTime(actual);
+      const b = toTime(expected);
+      if (a === null) return `${toText(actual)} is not a date`;
+      if (b === null) return `'${expected}' is not a date`;
+      return operator === 'before' ? a < b : a > b;
+    }
+    default:
+      throw new ExpressionError(`Unknown condition operator '${operator}'.`);
+  }
+};
+
+export interface ConditionEvaluation {
+  result: boolean;
+  trace: string[]; // One line per rule and group, for the step logs
+}
+
+// Evaluates a rule tree against the step input. Missing variables make their rule false, or
+// throw when onMissing is 'error'. Type mismatches (e.g. 'abc' > 5) make the rule false.
+export const evaluateConditions = (group: ConditionGroup, context: any, onMissing: MissingVariableMode = 'false'): ConditionEvaluation => {
+  const trace: string[] = [];
+
+  const evaluateRule = (rule: ConditionRule, indent: string): boolean => {
+    const actual = lookupExpression(rule.variable, context);
+    const label = operatorInfo(rule.operator)?.label || rule.operator;
+    const expected = operatorInfo(rule.operator)?.needsValue ? String(renderTemplate(rule.value ?? '', context) ?? '') : '';
+    const description = `${rule.variable} ${label}${expected !== '' ? ` '${expected}'` : ''}`;
+
+    if (isMissing(actual) && !MISSING_AWARE.includes(rule.operator)) {
+      if (onMissing === 'error') {
+        throw new ExpressionError(`Condition variable '${rule.variable}' is missing from the input.`);
+      }
+      trace.push(`${indent}✗ ${description}: '${rule.variable}' is missing`);
+      return false;
+    }
+
+    const outcome = compare(actual, rule.operator, expected);
+    if (typeof outcome === 'string') {
+      trace.push(`${indent}✗ ${description}: ${outcome}`);
+      return false;
+    }
+    trace.push(`${indent}${outcome ? '✓' : '✗'} ${description} (got ${toText(actual)})`);
+    return outcome;
+  };
+
+  const evaluateGroup = (current: ConditionGroup, indent: string): boolean => {
+    // Every rule is evaluated (no short-circuit) so the trace shows the full picture
+    const results = current.rules.map(item => isConditionGroup(item)
+      ? evaluateGroup(item, indent + '  ')
+      : evaluateRule(item, indent + '  '));
+    const result = current.combinator === 'or' ? results.some(Boolean) : results.every(Boolean);
+    trace.push(`${indent}${current.combinator.toUpperCase()} group (${current.rules.length} rule${current.rules.length === 1 ? '' : 's'}) = ${result}`);
+    return result;
+  };
+
+  // An empty rule set passes, matching a CONDITION node without configuration
+  if (group.rules.length === 0) return { result: true, trace: ['No rules configured; condition passes.'] };
+  const result = evaluateGroup(group, '');
+  return { result, trace };
+};
+
+// Static checks for validateWorkflow. Returns messages without the node prefix.
+export const validateConditions = (group: ConditionGroup): string[] => {
+  const errors: string[] = [];
+  const visit = (current: ConditionGroup, nested = false) => {
+    if (nested && current.rules.length === 0) errors.push(`has an empty ${current.combinator.toUpperCase()} group`);
+    current.rules.forEach(item => {
+      if (isConditionGroup(item)) return visit(item, true);
+      const info = operatorInfo(item.operator);
+      if (!info) return errors.push(`uses an unknown operator '${item.operator}'`);
+      if (!item.variable?.trim()) errors.push(`has a rule without a variable`);
+      if (info.needsValue && (item.value === undefined || item.value === '') && item.operator !== 'equals' && item.operator !== 'not_equals') {
+        errors.push(`rule on '${item.variable}' (${info.label}) needs a value`);
+      }
+      if (item.operator === 'matches' && item.value && !item.value.includes('{{')) {
+        try { new RegExp(item.value); } catch { errors.push(`rule on '${item.variable}' has an invalid regex '${item.value}'`); }
+      }
+    });
+  };
+  visit(group);
+  return errors;
+};
+
+// --- Switch ---
+
+export interface SwitchEvaluation {
+  matched: string | null; // The first case equal to the value, or null when the default path applies
+  trace: string[];
+}
+
+// Compares the value at `variable` against each case in order, with the same loose equality as 'equals' rules
+export const evaluateSwitch = (variable: string, cases: string[], context: any): SwitchEvaluation => {
+  const actual = variable ? lookupExpression(variable, context) : undefined;
+  if (isMissing(actual)) {
+    return { matched: null, trace: [`'${variable}' is missing; no case can match`] };
+  }
+  const trace: string[] = [];
+  for (const option of cases) {
+    const isMatch = looselyEquals(actual, option);
+    trace.push(`${isMatch ? '✓' : '✗'} ${variable} equals '${option}'`);
+    if (isMatch) return { matched: option, trace };
+  }
+  trace.push(`No case matched ${toText(actual)}`);
+  return { matched: null, trace };
+};
@@ -0,0 +1,233 @@
+// The Connector SDK (see CONNECTOR_SDK_EXAMPLE): a connector declares what it offers in a
+// ConnectorDefinition and does the work in a ConnectorImplementation. The engine resolves a node's
+// service and operation through a ConnectorRegistry and calls the matching handler.
+import { WorkflowNode, NodeType } from '../types';
+import { Clock } from './clock';
+import { WorkflowError } from './errors';
+
+// A subset of JSON Schema describing one config field
+export interface FieldSchema {
+  type: 'string' | 'number' | 'boolean' | 'object' | 'array';
+  title?: string;
+  description?: string; // Help text
+  enum?: (string | number)[];
+  default?: any;
+  secret?: boolean; // Credentials and signing keys: masked in the editor
+  format?: 'multiline' | 'json' | 'url' | 'email';
+  examples?: any[]; // The first one is the editor's placeholder
+  properties?: Record<string, FieldSchema>; // Fields of an object
+  items?: FieldSchema; // Elements of an array
+}
+
+export interface ConfigSchema {
+  type: 'object';
+  properties: Record<string, FieldSchema>;
+  required?: string[];
+}
+
+// What an operation adds to the step output, for the variables offered to later steps
+export interface OutputSchema {
+  type: 'object';
+  properties: Record<string, FieldSchema>;
+}
+
+export interface OperationDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  config: ConfigSchema;
+  output?: OutputSchema;
+}
+
+export type ActionDefinition = OperationDefinition;
+export type TriggerDefinition = OperationDefinition;
+
+export type AuthType = 'oauth2' | 'apikey' | 'none';
+
+export interface ConnectorDefinition {
+  id: string; // The node service it handles, e.g. 'slack'
+  name: string;
+  version: string;
+  authType: AuthType;
+  aliases?: string[]; // Further services it handles, e.g. 'ai' for 'gemini'
+  triggers: TriggerDefinition[];
+  actions: ActionDefinition[];
+}
+
+// Produces the text of AI nodes, e.g. a call to the Gemini API
+export type TextGenerator = (prompt: string, model: string) => Promise<string>;
+
+export interface ConnectorContext {
+  node: WorkflowNode;
+  input: any; // The step input the config was resolved against
+  signal: AbortSignal; // Aborts on cancellation or when the attempt times out
+  logs: string[]; // Appended to the step's activity log
+  clock: Clock;
+  generateText?: TextGenerator; // Provided by hosts that can call a language model
+}
+
+// Receives the node config with its templates resolved and returns what the node produces
+export type OperationHandler = (config: Record<string, any>, context: ConnectorContext) => Promise<Record<string, any> | void>;
+
+// A provider request to a trigger's webhook, turned into the events that start runs
+export interface StandardizedEvent {
+  id: string;
+  type: string;
+  occurredAt: string;
+  data: any;
+}
+
+export interface ConnectorImplementation {
+  testConnection: (credentials: any) => Promise<boolean>;
+  // One handler per declared action
+  actions: Record<string, OperationHandler>;
+  // Optional per declared trigger; without one the trigger passes the run input on unchanged
+  triggers?: Record<string, OperationHandler>;
+  webhooks: Record<string, (req: Request) => Promise<StandardizedEvent[]>>;
+}
+
+export interface Connector {
+  definition: ConnectorDefinition;
+  implementation: ConnectorImplementation;
+}
+
+export interface ResolvedOperation {
+  connector: Connector;
+  kind: 'trigger' | 'action';
+  operation: OperationDefinition;
+  handler?: OperationHandler;
+}
+
+export interface ConnectorRegistry {
+  get(service: string): Connector | undefined;
+  list(): Connector[];
+  // The operation a node runs, or undefined when no connector handles its service
+  resolve(node: WorkflowNode): ResolvedOperation | undefined;
+  // A new registry with these connectors added; they replace ones with the same id
+  extend(connectors: Connector[]): ConnectorRegistry;
+}
+
+// Trigger nodes run one of the connector's triggers, every other node one of its actions. Nodes
+// without an operation run the first one of their kind.
+export const getOperationKind = (node: WorkflowNode): 'trigger' | 'action' =>
+  node.type === NodeType.TRIGGER ? 'trigger' : 'action';
+
+const checkConnector = ({ definition, implementation }: Connector) => {
+  const missing = definition.actions.filter(a => !implementation.actions[a.id]).map(a => a.id);
+  if (missing.length) {
+    throw new WorkflowError(`Connector '${definition.id}' declares actions without handlers: ${missing.join(', ')}.`);
+  }
+};
+
+// --- Config schemas ---
+
+export interface ConfigProblem {
+  field: string;
+  message: string;
+  missing?: boolean; // A required field without a value, rather than a wrong one
+}
+
+const isUnset = (value: any) => value === undefined || value === null || (typeof value === 'string' && !value.trim());
+// {{ }} references are only known at run time, so their values are not checked
+const isTemplate = (value: any) => typeof value === 'string' && value.includes('{{');
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const checkField = (field: FieldSchema, title: string, value: any): string | null => {
+  if (field.enum) {
+    return field.enum.some(option => String(option) === String(value))
+      ? null
+      : `${title} must be one of ${field.enum.join(', ')} (got '${value}').`;
+  }
+  switch (field.type) {
+    case 'number':
+      return value !== '' && !isNaN(Number(value)) ? null : `${title} must be a number.`;
+    case 'boolean':
+      return typeof value === 'boolean' || value === 'true' || value === 'false' ? null : `${title} must be true or false.`;
+    case 'object':
+      return typeof value === 'object' && !Array.isArray(value) ? null : `${title} must be an object.`;
+    case 'array':
+      return Array.isArray(value) ? null : `${title} must be a list.`;
+  }
+  if (typeof value !== 'string') return null;
+  if (field.format === 'json') {
+    try {
+      JSON.parse(value);
+    } catch {
+      return `${title} is not valid JSON.`;
+    }
+  }
+  if (field.format === 'email' && !EMAIL_PATTERN.test(value.trim())) return `${title} '${value}' is not an email address.`;
+  if (field.format === 'url' && !isHttpUrl(value.trim())) return `${title} '${value}' is not an http(s) URL.`;
+  return null;
+};
+
+// Problems with a node config before its templates are resolved: missing required fields, values
+// outside an enum and values of the wrong type or format
+export const validateConfig = (schema: ConfigSchema, config: Record<string, any> = {}): ConfigProblem[] => {
+  const problems: ConfigProblem[] = [];
+  Object.entries(schema.properties).forEach(([key, field]) => {
+    const title = field.title || key;
+    const value = config[key];
+    if (isUnset(value)) {
+      if (schema.required?.includes(key) && field.default === undefined) {
+        problems.push({ field: key, message: `${title} is required.`, missing: true });
+      }
+      return;
+    }
+    if (isTemplate(value)) return;
+    const message = checkField(field, title, value);
+    if (message) problems.push({ field: key, message });
+  });
+  return problems;
+};
+
+// The config with defaults filled in for unset fields
+export const withDefaults = (schema: ConfigSchema, config: Record<string, any> = {}): Record<string, any> => {
+  const filled = { ...config };
+  Object.entries(schema.properties).forEach(([key, field]) => {
+    if (field.default !== undefined && isUnset(filled[key])) filled[key] = field.default;
+  });
+  return filled;
+};
+
+export const createConnectorRegistry = (connectors: Connector[]): ConnectorRegistry => {
+  connectors.forEach(checkConnector);
+  const byService = new Map<string, Connector>();
+  connectors.forEach(connector => {
+    const { id, aliases = [] } = connector.definition;
+    [id, ...aliases].forEach(service => byService.set(service.toLowerCase(), connector));
+  });
+
+  const get = (service: string) => byService.get(service.toLowerCase());
+  return {
+    get,
+    list: () => [...new Set(byService.values())],
+    resolve: (node) => {
+      const connector = get(node.service);
+      if (!connector) return undefined;
+      const kind = getOperationKind(node);
+      const operations = kind === 'trigger' ? connector.definition.triggers : connector.definition.actions;
+      const operation = node.operation ? operations.find(o => o.id === node.operation) : operations[0];
+      if (!operation) {
+        throw new WorkflowError(node.operation
+          ? `${connector.definition.name} has no ${kind} '${node.operation}'.`
+          : `${connector.definition.name} has no ${kind}s.`);
+      }
+      const handlers = kind === 'trigger' ? connector.implementation.triggers : connector.implementation.actions;
+      return { connector, kind, operation, handler: handlers?.[operation.id] };
+    },
+    extend: (more) => createConnectorRegistry([
+      ...connectors.filter(c => !more.some(m => m.definition.id === c.definition.id)),
+      ...more
+    ])
+  };
+};
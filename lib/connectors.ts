@@ -0,0 +1,827 @@
+// The built-in connectors, written against the Connector SDK (see connectorSdk.ts). Hosts add their
+// own to the registry with defaultConnectors.extend([...]).
+import { NodeType } from '../types';
+import {
+  Connector, ConnectorImplementation, OperationHandler, OutputSchema, createConnectorRegistry
+} from './connectorSdk';
+import { HttpError, RateLimitError, WorkflowError } from './errors';
+import { CATCH_UP_POLICIES, DEFAULT_CATCH_UP } from './scheduler';
+
+// Connectors that need no credentials, or only simulate their service
+const noCredentials: Pick<ConnectorImplementation, 'testConnection' | 'webhooks'> = {
+  testConnection: async () => true,
+  webhooks: {}
+};
+
+const request: OperationHandler = async (config, { logs, signal }) => {
+  logs.push(`Preparing ${config.method || 'GET'} request to ${config.url}...`);
+  // Try parsing body if it exists and isn't GET/DELETE
+  let body = undefined;
+  if (config.method !== 'GET' && config.method !== 'DELETE' && config.body) {
+    try {
+      body = typeof config.body === 'string' ? config.body : JSON.stringify(config.body);
+    } catch (e) {
+      logs.push(`⚠️ Warning: Body is not valid JSON, sending as string.`);
+      body = config.body;
+    }
+  }
+
+  // Try parsing headers
+  let headers = {};
+  if (config.headers) {
+    try {
+      headers = typeof config.headers === 'string' ? JSON.parse(config.headers) : config.headers;
+    } catch (e) {
+      logs.push(`⚠️ Warning: Headers are not valid JSON.`);
+    }
+  }
+
+  const response = await fetch(config.url, {
+    method: config.method || 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers
+    },
+    body,
+    signal
+  });
+
+  logs.push(`Response Status: ${response.status}`);
+
+  let responseData;
+  const contentType = response.headers.get("content-type");
+  if (contentType && contentType.includes("application/json")) {
+    responseData = await response.json();
+  } else {
+    responseData = await response.text();
+  }
+
+  if (!response.ok) {
+    throw new HttpError(response.status, `HTTP ${response.status}: ${JSON.stringify(responseData)}`);
+  }
+  return { data: responseData, status: response.status };
+};
+
+export const httpConnector: Connector = {
+  definition: {
+    id: 'http',
+    name: 'HTTP Request',
+    version: '1.0.0',
+    authType: 'none',
+    triggers: [],
+    actions: [{
+      id: 'request',
+      name: 'Send Request',
+      config: {
+        type: 'object',
+        properties: {
+          method: { type: 'string', title: 'Method', enum: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'], default: 'GET' },
+          url: { type: 'string', title: 'URL', format: 'url', examples: ['https://api.example.com/v1/resource'] },
+          body: { type: 'string', title: 'JSON Body', format: 'json', description: 'Sent with POST, PUT and PATCH.', examples: ['{ "key": "{{value}}" }'] },
+          headers: { type: 'string', title: 'Headers (JSON)', format: 'json', examples: ['{ "Authorization": "Bearer key" }'] }
+        },
+        required: ['url']
+      },
+      output: {
+        type: 'object',
+        properties: {
+          data: { type: 'object', description: 'The response body, parsed when it is JSON.' },
+          status: { type: 'number' }
+        }
+      }
+    }]
+  },
+  implementation: { ...noCredentials, actions: { request } }
+};
+
+const webhookConnector: Connector = {
+  definition: {
+    id: 'webhook',
+    name: 'Webhook',
+    version: '1.0.0',
+    authType: 'none',
+    triggers: [{
+      id: 'request',
+      name: 'Incoming Request',
+      description: 'Starts a run for every POST to the webhook URL.',
+      config: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', title: 'Path', description: 'Defaults to the workflow id.', examples: ['new-order'] },
+          secret: { type: 'string', title: 'Signing Secret', secret: true, description: 'Leave empty to accept unsigned requests.' }
+        }
+      },
+      output: {
+        type: 'object',
+        properties: {
+          body: { type: 'object', description: 'The parsed request body.' },
+          query: { type: 'object', description: 'Query string parameters.' },
+          headers: { type: 'object' },
+          method: { type: 'string' },
+          path: { type: 'string' },
+          deliveryId: { type: 'string' }
+        }
+      }
+    }],
+    actions: [{
+      id: 'waitForCallback',
+      name: 'Wait for Callback',
+      config: { type: 'object', properties: {} },
+      output: {
+        type: 'object',
+        properties: {
+          webhookBody: { type: 'object' }
+        }
+      }
+    }]
+  },
+  implementation: {
+    ...noCredentials,
+    triggers: {
+      request: async (config, { input, logs }) => {
+        if (input?.trigger === 'webhook') {
+          logs.push(`Received ${input.method} ${input.path} (delivery ${input.deliveryId}).`);
+          return;
+        }
+        logs.push(`Waiting for webhook event...`);
+        logs.push(`Webhook event received (Simulated).`);
+        return { webhookBody: { event: 'ping' } };
+      }
+    },
+    actions: {
+      // In a real execution this would suspend until the callback arrives
+      waitForCallback: async (config, { logs }) => {
+        logs.push(`Waiting for webhook event...`);
+        logs.push(`Webhook event received (Simulated).`);
+        return { webhookBody: { event: 'ping' } };
+      }
+    }
+  }
+};
+
+const scheduleConnector: Connector = {
+  definition: {
+    id: 'schedule',
+    name: 'Schedule',
+    version: '1.0.0',
+    authType: 'none',
+    triggers: [{
+      id: 'cron',
+      name: 'On a Schedule',
+      config: {
+        type: 'object',
+        properties: {
+          cron: { type: 'string', title: 'Cron Expression', description: 'Minute, hour, day of month, month and day of week.', examples: ['0 9 * * MON-FRI'] },
+          timezone: { type: 'string', title: 'Time Zone', description: 'Defaults to the time zone of the machine.' },
+          catchUp: { type: 'string', title: 'Missed Runs', enum: CATCH_UP_POLICIES, default: DEFAULT_CATCH_UP }
+        },
+        required: ['cron']
+      },
+      output: {
+        type: 'object',
+        properties: {
+          scheduledFor: { type: 'string', description: 'The fire time this run is for (ISO 8601).' },
+          firedAt: { type: 'string' },
+          missed: { type: 'boolean', description: 'Whether the fire time passed while nothing was checking.' },
+          cron: { type: 'string' },
+          timezone: { type: 'string' }
+        }
+      }
+    }],
+    actions: []
+  },
+  implementation: {
+    ...noCredentials,
+    triggers: {
+      cron: async (config, { input, logs }) => {
+        if (input?.trigger === 'schedule') {
+          logs.push(`Fired by schedule '${input.cron}' for ${input.scheduledFor}${input.missed ? ' (missed, caught up)' : ''}.`);
+        } else {
+          logs.push(`Started manually; schedule '${config.cron || ''}' not involved.`);
+        }
+      }
+    },
+    actions: {}
+  }
+};
+
+const gmailConnector: Connector = {
+  definition: {
+    id: 'gmail',
+    name: 'Gmail',
+    version: '1.0.0',
+    authType: 'oauth2',
+    triggers: [{
+      id: 'newEmail',
+      name: 'New Email',
+      config: {
+        type: 'object',
+        properties: {
+          label: { type: 'string', title: 'Label', default: 'INBOX' }
+        }
+      },
+      output: {
+        type: 'object',
+        properties: {
+          messageId: { type: 'string' },
+          from: { type: 'string' },
+          to: { type: 'string' },
+          subject: { type: 'string' },
+          body: { type: 'string' },
+          attachments: { type: 'array', items: { type: 'object', properties: { filename: { type: 'string' }, mimeType: { type: 'string' } } } }
+        }
+      }
+    }],
+    actions: [{
+      id: 'sendEmail',
+      name: 'Send Email',
+      config: {
+        type: 'object',
+        properties: {
+          to: { type: 'string', title: 'To Address', format: 'email', examples: ['recipient@example.com'] },
+          subject: { type: 'string', title: 'Subject', examples: ['New Alert: {{orderId}}'] },
+          body: { type: 'string', title: 'Body', format: 'multiline', examples: ['Hello {{name}}, ...'] }
+        },
+        required: ['to']
+      }
+    }]
+  },
+  implementation: {
+    ...noCredentials,
+    actions: {
+      sendEmail: async (config, { logs }) => {
+        logs.push(`Connecting to SMTP server...`, `Authenticating...`);
+        logs.push(`Sending email to: ${config.to || 'recipient'}`);
+        logs.push(`Subject: ${config.subject || '(No Subject)'}`);
+        // In a real app, this is where we'd use the resolved body
+      }
+    }
+  }
+};
+
+const slackConnector: Connector = {
+  definition: {
+    id: 'slack',
+    name: 'Slack',
+    version: '1.0.0',
+    authType: 'oauth2',
+    triggers: [{
+      id: 'newMessage',
+      name: 'New Message',
+      config: {
+        type: 'object',
+        properties: {
+          channel: { type: 'string', title: 'Channel', description: 'Leave empty to watch every channel.', examples: ['#general'] }
+        }
+      },
+      output: {
+        type: 'object',
+        properties: {
+          channel: { type: 'string' },
+          user: { type: 'string' },
+          text: { type: 'string' },
+          ts: { type: 'string', description: 'The message timestamp, which Slack uses as its id.' }
+        }
+      }
+    }],
+    actions: [{
+      id: 'postMessage',
+      name: 'Post Message',
+      config: {
+        type: 'object',
+        properties: {
+          channel: { type: 'string', title: 'Channel', default: '#general' },
+          message: { type: 'string', title: 'Message', format: 'multiline', examples: ['New Lead: {{email}}...'] }
+        },
+        required: ['channel', 'message']
+      }
+    }]
+  },
+  implementation: {
+    ...noCredentials,
+    actions: {
+      postMessage: async (config, { logs }) => {
+        logs.push(`Resolving channel ID...`);
+        logs.push(`Posting message to ${config.channel || 'channel'}: "${config.message?.substring(0, 20)}..."`);
+      }
+    }
+  }
+};
+
+const ORDER_OUTPUT: OutputSchema = {
+  type: 'object',
+  properties: {
+    orderId: { type: 'string' },
+    totalValue: { type: 'number' }
+  }
+};
+
+// Mock intermittent failure for demo purposes
+const fetchOrder: OperationHandler = async (config, { logs }) => {
+  logs.push(`Fetching order data...`, `Rate limit check: OK`);
+  if (Math.random() > 0.95) throw new RateLimitError("Shopify API Rate Limit Exceeded");
+  const order = { orderId: '#SH-' + Math.floor(Math.random() * 10000), totalValue: Math.floor(Math.random() * 500) };
+  logs.push(`Order Value: $${order.totalValue}`);
+  return order;
+};
+
+const shopifyConnector: Connector = {
+  definition: {
+    id: 'shopify',
+    name: 'Shopify',
+    version: '1.0.0',
+    authType: 'apikey',
+    triggers: [{
+      id: 'storeEvent',
+      name: 'Store Event',
+      config: {
+        type: 'object',
+        properties: {
+          resource: { type: 'string', title: 'Resource', enum: ['Orders', 'Products', 'Customers', 'Inventory'], default: 'Orders' },
+          event: { type: 'string', title: 'Event', enum: ['Created', 'Updated', 'Deleted', 'Paid', 'Fulfilled'], default: 'Created' }
+        }
+      },
+      output: ORDER_OUTPUT
+    }],
+    actions: [{
+      id: 'getOrder',
+      name: 'Get Order',
+      config: {
+        type: 'object',
+        properties: {
+          orderId: { type: 'string', title: 'Order ID', description: 'Defaults to the latest order.' }
+        }
+      },
+      output: ORDER_OUTPUT
+    }]
+  },
+  implementation: { ...noCredentials, triggers: { storeEvent: fetchOrder }, actions: { getOrder: fetchOrder } }
+};
+
+// AI nodes ('gemini', 'ai' and 'gpt' services) use the text generator of the host
+const generateText: OperationHandler = async (config, { input, logs, generateText: generate }) => {
+  if (!generate) throw new WorkflowError('AI steps cannot run here: no text generator is configured.');
+  logs.push(`Building prompt context...`);
+
+  const promptTemplate = config.prompt || "Summarize the input data.";
+  const model = config.model || 'gemini-2.5-flash';
+
+  // Context is already injected via resolveConfig if user used {{variables}}
+  // We append raw JSON as a fallback context if the prompt is short
+  let finalPrompt = promptTemplate;
+  if (input && Object.keys(input).length > 0 && !promptTemplate.includes('{{')) {
+    finalPrompt += `\n\n--- Input Data Context ---\n${JSON.stringify(input, null, 2)}`;
+  }
+
+  logs.push(`Sending request to ${model}...`);
+  const aiResult = await generate(finalPrompt, model);
+  logs.push(`LLM Response received (${aiResult.length} chars).`);
+  return { aiResult };
+};
+
+const aiConnector: Connector = {
+  definition: {
+    id: 'gemini',
+    name: 'AI',
+    version: '1.0.0',
+    authType: 'apikey',
+    aliases: ['ai', 'gpt'],
+    triggers: [],
+    actions: [{
+      id: 'generateText',
+      name: 'Generate Text',
+      config: {
+        type: 'object',
+        properties: {
+          model: { type: 'string', title: 'Model', enum: ['gemini-2.5-flash', 'gemini-pro', 'gpt-4'], default: 'gemini-2.5-flash' },
+          prompt: {
+            type: 'string', title: 'Prompt', format: 'multiline', default: 'Summarize the input data.',
+            description: 'Without {{ }} references the step input is appended.', examples: ['Summarize this text: {{body}}...']
+          }
+        }
+      },
+      output: {
+        type: 'object',
+        properties: {
+          aiResult: { type: 'string', description: 'The generated text.' }
+        }
+      }
+    }]
+  },
+  implementation: { ...noCredentials, actions: { generateText } }
+};
+
+// The SaaS connectors below only simulate their service: they log the request they would make and
+// return sample data shaped like the real response.
+const sampleId = (prefix: string) => `${prefix}${Math.floor(Math.random() * 100000)}`;
+
+const parseJsonField = (value: any, title: string) => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new WorkflowError(`${title} is not valid JSON.`);
+  }
+};
+
+const sheetsConnector: Connector = {
+  definition: {
+    id: 'sheets',
+    name: 'Google Sheets',
+    version: '1.0.0',
+    authType: 'oauth2',
+    triggers: [{
+      id: 'newRow',
+      name: 'New Row',
+      config: {
+        type: 'object',
+        properties: {
+          spreadsheetId: { type: 'string', title: 'Spreadsheet ID', description: 'The long id in the spreadsheet URL.' },
+          sheet: { type: 'string', title: 'Sheet', default: 'Sheet1' }
+        },
+        required: ['spreadsheetId']
+      },
+      output: {
+        type: 'object',
+        properties: {
+          rowNumber: { type: 'number' },
+          values: { type: 'object', description: 'Cell values by column header.' }
+        }
+      }
+    }],
+    actions: [{
+      id: 'getRows',
+      name: 'Get Rows',
+      config: {
+        type: 'object',
+        properties: {
+          spreadsheetId: { type: 'string', title: 'Spreadsheet ID', description: 'The long id in the spreadsheet URL.' },
+          sheet: { type: 'string', title: 'Sheet', default: 'Sheet1' },
+          range: { type: 'string', title: 'Range', description: 'Leave empty to read the whole sheet.', examples: ['A2:D100'] }
+        },
+        required: ['spreadsheetId']
+      },
+      output: {
+        type: 'object',
+        properties: {
+          rows: { type: 'array', items: { type: 'object', properties: { row: { type: 'number' }, name: { type: 'string' }, amount: { type: 'number' } } } },
+          rowCount: { type: 'number' }
+        }
+      }
+    }, {
+      id: 'appendRow',
+      name: 'Append Row',
+      config: {
+        type: 'object',
+        properties: {
+          spreadsheetId: { type: 'string', title: 'Spreadsheet ID', description: 'The long id in the spreadsheet URL.' },
+          sheet: { type: 'string', title: 'Sheet', default: 'Sheet1' },
+          values: {
+            type: 'string', title: 'Values', format: 'json',
+            description: 'A JSON object from column header to cell value.', examples: ['{ "Order": "{{orderId}}", "Total": "{{totalValue}}" }']
+          }
+        },
+        required: ['spreadsheetId', 'values']
+      },
+      output: {
+        type: 'object',
+        properties: {
+          rowNumber: { type: 'number' },
+          updatedRange: { type: 'string' }
+        }
+      }
+    }]
+  },
+  implementation: {
+    ...noCredentials,
+    actions: {
+      getRows: async (config, { logs }) => {
+        logs.push(`Reading ${config.sheet}${config.range ? `!${config.range}` : ''} of spreadsheet ${config.spreadsheetId}...`);
+        const rows = Array.from({ length: 3 }, (_, i) => ({ row: i + 2, name: `Item ${i + 1}`, amount: (i + 1) * 100 }));
+        logs.push(`Read ${rows.length} rows.`);
+        return { rows, rowCount: rows.length };
+      },
+      appendRow: async (config, { logs }) => {
+        const values = parseJsonField(config.values, 'Values');
+        const rowNumber = Math.floor(Math.random() * 500) + 2;
+        logs.push(`Appending ${Object.keys(values || {}).length} cells to ${config.sheet} of spreadsheet ${config.spreadsheetId}...`);
+        return { rowNumber, updatedRange: `${config.sheet}!A${rowNumber}` };
+      }
+    }
+  }
+};
+
+const notionConnector: Connector = {
+  definition: {
+    id: 'notion',
+    name: 'Notion',
+    version: '1.0.0',
+    authType: 'apikey',
+    triggers: [{
+      id: 'newDatabaseItem',
+      name: 'New Database Item',
+      config: {
+        type: 'object',
+        properties: {
+          databaseId: { type: 'string', title: 'Database ID' }
+        },
+        required: ['databaseId']
+      },
+      output: {
+        type: 'object',
+        properties: {
+          pageId: { type: 'string' },
+          url: { type: 'string' },
+          properties: { type: 'object', description: 'Property values by name.' }
+        }
+      }
+    }],
+    actions: [{
+      id: 'createPage',
+      name: 'Create Page',
+      config: {
+        type: 'object',
+        properties: {
+          databaseId: { type: 'string', title: 'Database ID', description: 'The database the page is added to.' },
+          title: { type: 'string', title: 'Title', examples: ['Meeting notes {{date}}'] },
+          content: { type: 'string', title: 'Content', format: 'multiline', examples: ['{{aiResult}}'] }
+        },
+        required: ['databaseId', 'title']
+      },
+      output: {
+        type: 'object',
+        properties: {
+          pageId: { type: 'string' },
+          url: { type: 'string' }
+        }
+      }
+    }]
+  },
+  implementation: {
+    ...noCredentials,
+    actions: {
+      createPage: async (config, { logs }) => {
+        const pageId = sampleId('page-');
+        logs.push(`Creating page "${config.title}" in database ${config.databaseId}...`);
+        return { pageId, url: `https://www.notion.so/${pageId}` };
+      }
+    }
+  }
+};
+
+const githubConnector: Connector = {
+  definition: {
+    id: 'github',
+    name: 'GitHub',
+    version: '1.0.0',
+    authType: 'oauth2',
+    triggers: [{
+      id: 'repositoryEvent',
+      name: 'Repository Event',
+      config: {
+        type: 'object',
+        properties: {
+          repository: { type: 'string', title: 'Repository', examples: ['acme/web'] },
+          event: { type: 'string', title: 'Event', enum: ['push', 'pull_request', 'issues', 'release'], default: 'push' }
+        },
+        required: ['repository']
+      },
+      output: {
+        type: 'object',
+        properties: {
+          repository: { type: 'string' },
+          event: { type: 'string' },
+          sender: { type: 'string', description: 'The login of the user who caused the event.' },
+          payload: { type: 'object', description: 'The webhook payload GitHub sent.' }
+        }
+      }
+    }],
+    actions: [{
+      id: 'createIssue',
+      name: 'Create Issue',
+      config: {
+        type: 'object',
+        properties: {
+          repository: { type: 'string', title: 'Repository', examples: ['acme/web'] },
+          title: { type: 'string', title: 'Title' },
+          body: { type: 'string', title: 'Body', format: 'multiline' },
+          labels: { type: 'string', title: 'Labels', description: 'Comma-separated.', examples: ['bug, triage'] }
+        },
+        required: ['repository', 'title']
+      },
+      output: {
+        type: 'object',
+        properties: {
+          issueNumber: { type: 'number' },
+          url: { type: 'string' }
+        }
+      }
+    }, {
+      id: 'inviteMember',
+      name: 'Invite to Organization',
+      config: {
+        type: 'object',
+        properties: {
+          organization: { type: 'string', title: 'Organization', examples: ['acme'] },
+          username: { type: 'string', title: 'Username', examples: ['{{githubUsername}}'] },
+          role: { type: 'string', title: 'Role', enum: ['member', 'admin'], default: 'member' }
+        },
+        required: ['organization', 'username']
+      },
+      output: {
+        type: 'object',
+        properties: {
+          invitationId: { type: 'string' },
+          role: { type: 'string' }
+        }
+      }
+    }]
+  },
+  implementation: {
+    ...noCredentials,
+    actions: {
+      createIssue: async (config, { logs }) => {
+        const issueNumber = Math.floor(Math.random() * 1000) + 1;
+        logs.push(`Opening issue "${config.title}" in ${config.repository}...`);
+        return { issueNumber, url: `https://github.com/${config.repository}/issues/${issueNumber}` };
+      },
+      inviteMember: async (config, { logs }) => {
+        logs.push(`Inviting ${config.username} to ${config.organization} as ${config.role}...`);
+        return { invitationId: sampleId(''), role: config.role };
+      }
+    }
+  }
+};
+
+const stripeConnector: Connector = {
+  definition: {
+    id: 'stripe',
+    name: 'Stripe',
+    version: '1.0.0',
+    authType: 'apikey',
+    triggers: [{
+      id: 'paymentEvent',
+      name: 'Payment Event',
+      config: {
+        type: 'object',
+        properties: {
+          event: {
+            type: 'string', title: 'Event', default: 'payment_intent.succeeded',
+            enum: ['payment_intent.succeeded', 'payment_intent.payment_failed', 'charge.refunded', 'invoice.paid', 'customer.subscription.created']
+          },
+          signingSecret: { type: 'string', title: 'Signing Secret', secret: true, description: 'The whsec_ key of the Stripe webhook endpoint.' }
+        }
+      },
+      output: {
+        type: 'object',
+        properties: {
+          eventId: { type: 'string' },
+          type: { type: 'string' },
+          data: { type: 'object', description: 'The Stripe object the event is about.' }
+        }
+      }
+    }],
+    actions: [{
+      id: 'createCustomer',
+      name: 'Create Customer',
+      config: {
+        type: 'object',
+        properties: {
+          email: { type: 'string', title: 'Email', format: 'email', examples: ['{{email}}'] },
+          name: { type: 'string', title: 'Name' }
+        },
+        required: ['email']
+      },
+      output: {
+        type: 'object',
+        properties: {
+          customerId: { type: 'string' }
+        }
+      }
+    }, {
+      id: 'createRefund',
+      name: 'Refund Payment',
+      config: {
+        type: 'object',
+        properties: {
+          paymentIntentId: { type: 'string', title: 'Payment Intent ID', examples: ['pi_...'] },
+          amount: { type: 'number', title: 'Amount', description: 'In cents. Leave empty to refund the full payment.' }
+        },
+        required: ['paymentIntentId']
+      },
+      output: {
+        type: 'object',
+        properties: {
+          refundId: { type: 'string' },
+          refundStatus: { type: 'string' }
+        }
+      }
+    }]
+  },
+  implementation: {
+    ...noCredentials,
+    actions: {
+      createCustomer: async (config, { logs }) => {
+        logs.push(`Creating customer ${config.email}...`);
+        return { customerId: sampleId('cus_') };
+      },
+      createRefund: async (config, { logs }) => {
+        logs.push(`Refunding ${config.amount ? `${config.amount} cents of ` : ''}${config.paymentIntentId}...`);
+        return { refundId: sampleId('re_'), refundStatus: 'succeeded' };
+      }
+    }
+  }
+};
+
+const hubspotConnector: Connector = {
+  definition: {
+    id: 'hubspot',
+    name: 'HubSpot',
+    version: '1.0.0',
+    authType: 'oauth2',
+    triggers: [{
+      id: 'contactCreated',
+      name: 'Contact Created',
+      config: { type: 'object', properties: {} },
+      output: {
+        type: 'object',
+        properties: {
+          contactId: { type: 'string' },
+          email: { type: 'string' },
+          firstName: { type: 'string' },
+          lastName: { type: 'string' }
+        }
+      }
+    }],
+    actions: [{
+      id: 'createContact',
+      name: 'Create Contact',
+      config: {
+        type: 'object',
+        properties: {
+          email: { type: 'string', title: 'Email', format: 'email', examples: ['{{email}}'] },
+          firstName: { type: 'string', title: 'First Name' },
+          lastName: { type: 'string', title: 'Last Name' },
+          lifecycleStage: {
+            type: 'string', title: 'Lifecycle Stage', default: 'lead',
+            enum: ['subscriber', 'lead', 'marketingqualifiedlead', 'salesqualifiedlead', 'opportunity', 'customer']
+          }
+        },
+        required: ['email']
+      },
+      output: {
+        type: 'object',
+        properties: {
+          contactId: { type: 'string' }
+        }
+      }
+    }, {
+      id: 'createDeal',
+      name: 'Create Deal',
+      config: {
+        type: 'object',
+        properties: {
+          dealName: { type: 'string', title: 'Deal Name', examples: ['{{company}} renewal'] },
+          amount: { type: 'number', title: 'Amount' },
+          stage: {
+            type: 'string', title: 'Stage', default: 'appointmentscheduled',
+            enum: ['appointmentscheduled', 'qualifiedtobuy', 'presentationscheduled', 'decisionmakerboughtin', 'contractsent', 'closedwon', 'closedlost']
+          }
+        },
+        required: ['dealName']
+      },
+      output: {
+        type: 'object',
+        properties: {
+          dealId: { type: 'string' }
+        }
+      }
+    }]
+  },
+  implementation: {
+    ...noCredentials,
+    actions: {
+      createContact: async (config, { logs }) => {
+        logs.push(`Creating ${config.lifecycleStage} contact ${config.email}...`);
+        return { contactId: sampleId('') };
+      },
+      createDeal: async (config, { logs }) => {
+        logs.push(`Creating deal "${config.dealName}" in stage ${config.stage}...`);
+        return { dealId: sampleId('') };
+      }
+    }
+  }
+};
+
+export const BUILTIN_CONNECTORS: Connector[] = [
+  httpConnector, webhookConnector, scheduleConnector, gmailConnector, slackConnector, shopifyConnector, aiConnector,
+  sheetsConnector, notionConnector, githubConnector, stripeConnector, hubspotConnector
+];
+
+export const defaultConnectors = createConnectorRegistry(BUILTIN_CONNECTORS);
+
+// Node types the engine runs itself; their service never reaches a connector
+export const ENGINE_NODE_TYPES = [
+  NodeType.CONDITION, NodeType.SWITCH, NodeType.MERGE, NodeType.FOREACH, NodeType.SCRIPT,
+  NodeType.SUBWORKFLOW, NodeType.APPROVAL, NodeType.DELAY
+];
@@ -0,0 +1,186 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week) evaluated in a time zone.
+// Supports lists, ranges, steps, month and weekday names and the usual @macros.
+import { getZonedTime, fromZonedTime } from './timezone';
+import { WorkflowError } from './errors';
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  // As in Vixie cron: when both day fields are restricted, a day matching either one fires
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  namesFrom?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, namesFrom: 1 },
+  // 7 is accepted as a second Sunday
+  { name: 'day of week', min: 0, max: 7, names: WEEKDAY_NAMES, namesFrom: 0 }
+];
+
+// Years searched ahead before a schedule like '0 0 30 2 *' is declared to never fire
+const SEARCH_YEARS = 5;
+
+const parseValue = (value: string, spec: FieldSpec): number => {
+  const index = spec.names ? spec.names.indexOf(value.toLowerCase()) : -1;
+  const n = index >= 0 ? index + spec.namesFrom! : /^\d+$/.test(value) ? parseInt(value) : NaN;
+  if (isNaN(n) || n < spec.min || n > spec.max) {
+    throw new WorkflowError(`'${value}' is not a valid ${spec.name} (${spec.min}-${spec.max})`);
+  }
+  return n;
+};
+
+const parseField = (field: string, spec: FieldSpec): Set<number> => {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    if (extra !== undefined || !range) throw new WorkflowError(`'${part}' is not a valid ${spec.name}`);
+    let step = 1;
+    if (stepText !== undefined) {
+      step = /^\d+$/.test(stepText) ? parseInt(stepText) : 0;
+      if (step < 1) throw new WorkflowError(`'${stepText}' is not a valid step for the ${spec.name}`);
+    }
+    let from: number, to: number;
+    if (range === '*') {
+      from = spec.min;
+      to = spec.max;
+    } else if (range.includes('-')) {
+      const [a, b] = range.split('-');
+      from = parseValue(a, spec);
+      to = parseValue(b, spec);
+      if (from > to) throw new WorkflowError(`'${range}' is not a valid ${spec.name} range`);
+    } else {
+      from = parseValue(range, spec);
+      // '5/15' means every 15 starting at 5
+      to = stepText !== undefined ? spec.max : from;
+    }
+    for (let n = from; n <= to; n += step) values.add(n);
+  }
+  return values;
+};
+
+export const parseCron = (expression: string): CronSchedule => {
+  const trimmed = (expression || '').trim();
+  const expanded = MACROS[trimmed.toLowerCase()] || trimmed;
+  const fields = expanded.split(/\s+/).filter(Boolean);
+  if (fields.length !== 5) {
+    throw new WorkflowError(trimmed.startsWith('@')
+      ? `'${trimmed}' is not a known macro`
+      : `expected 5 fields (minute hour day month weekday), got ${fields.length}`);
+  }
+  const [minutes, hours, days, months, weekdays] = fields.map((f, i) => parseField(f, FIELDS[i]));
+  if (weekdays.delete(7)) weekdays.add(0);
+  return {
+    minutes, hours, days, months, weekdays,
+    anyDay: fields[2] === '*',
+    anyWeekday: fields[4] === '*'
+  };
+};
+
+// The reason an expression is invalid, or null
+export const validateCron = (expression: string): string | null => {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (e: any) {
+    return e.message;
+  }
+};
+
+const dayMatches = (schedule: CronSchedule, year: number, month: number, day: number) => {
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  if (schedule.anyDay) return schedule.weekdays.has(weekday);
+  if (schedule.anyWeekday) return schedule.days.has(day);
+  return schedule.days.has(day) || schedule.weekdays.has(weekday);
+};
+
+// The first fire time strictly after `after`, or null if the schedule never fires
+export const nextCronTime = (schedule: CronSchedule | string, after: Date, timeZone?: string): Date | null => {
+  const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  const start = getZonedTime(new Date(after.getTime() + 60000), timeZone);
+  // Wall-clock fields in the zone, normalized through Date.UTC so overflow rolls into the next unit
+  let t = new Date(Date.UTC(start.year, start.month - 1, start.day, start.hour, start.minute));
+  const limit = start.year + SEARCH_YEARS;
+
+  while (t.getUTCFullYear() <= limit) {
+    const year = t.getUTCFullYear(), month = t.getUTCMonth() + 1, day = t.getUTCDate();
+    const hour = t.getUTCHours(), minute = t.getUTCMinutes();
+    if (!cron.months.has(month)) {
+      t = new Date(Date.UTC(year, month, 1));
+    } else if (!dayMatches(cron, year, month, day)) {
+      t = new Date(Date.UTC(year, month - 1, day + 1));
+    } else if (!cron.hours.has(hour)) {
+      t = new Date(Date.UTC(year, month - 1, day, hour + 1));
+    } else if (!cron.minutes.has(minute)) {
+      t = new Date(Date.UTC(year, month - 1, day, hour, minute + 1));
+    } else {
+      const fire = fromZonedTime({ year, month, day, hour, minute }, timeZone);
+      // A wall-clock time repeated by a DST change can map back to before `after`
+      if (fire > after) return fire;
+      t = new Date(Date.UTC(year, month - 1, day, hour, minute + 1));
+    }
+  }
+  return null;
+};
+
+// Fire times in (after, until], oldest first, at most `limit` of them (the most recent ones are kept)
+export const cronTimesBetween = (
+  schedule: CronSchedule | string,
+  after: Date,
+  until: Date,
+  timeZone?: string,
+  limit = Infinity
+): Date[] => {
+  const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  const times: Date[] = [];
+  let next = nextCronTime(cron, after, timeZone);
+  while (next && next <= until) {
+    times.push(next);
+    if (times.length > limit) times.shift();
+    next = nextCronTime(cron, next, timeZone);
+  }
+  return times;
+};
+
+// The next `count` fire times after `from`, for previews
+export const upcomingCronTimes = (
+  schedule: CronSchedule | string,
+  from: Date,
+  count: number,
+  timeZone?: string
+): Date[] => {
+  const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  const times: Date[] = [];
+  let next = nextCronTime(cron, from, timeZone);
+  while (next && times.length < count) {
+    times.push(next);
+    next = nextCronTime(cron, next, timeZone);
+  }
+  return times;
+};
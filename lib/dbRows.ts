@@ -0,0 +1,64 @@
+// Rows of the Supabase tables (see DB_SCHEMA_SQL) to app types and back. Shared by the app and the
+// local servers (webhooks, REST API), which write the same tables.
+import { Workflow, RunLog } from '../types';
+
+export const workflowFromRow = (row: any): Workflow => ({
+  id: row.id,
+  name: row.name,
+  description: row.description || '',
+  status: row.is_active ? 'active' : 'paused',
+  createdAt: row.created_at,
+  nodes: row.definition?.nodes || [],
+  edges: row.definition?.edges || [],
+  history: row.definition?.history || [],
+  settings: row.definition?.settings,
+  stats: { runs: 0, successRate: 0 }
+});
+
+export const workflowToRow = (wf: Workflow) => ({
+  id: wf.id,
+  name: wf.name,
+  description: wf.description,
+  definition: { nodes: wf.nodes, edges: wf.edges, history: wf.history || [], settings: wf.settings },
+  is_active: wf.status === 'active',
+  created_at: wf.createdAt
+});
+
+export const runFromRow = (row: any, workflows: Workflow[]): RunLog => {
+  // Try to find name in current workflows, fallback to what's in DB or ID
+  const wf = workflows.find(w => w.id === row.workflow_id);
+  return {
+    id: row.id,
+    workflowId: row.workflow_id,
+    workflowName: wf?.name || 'Unknown Workflow',
+    status: row.status,
+    startedAt: row.started_at,
+    duration: row.duration || '0s',
+    steps: row.logs || [],
+    error: row.error_details || undefined,
+    resumedFrom: row.resumed_from || undefined,
+    input: row.input ?? undefined,
+    checkpointAt: row.checkpoint_at || undefined,
+    parentRun: row.parent_run || undefined,
+    output: row.output ?? undefined,
+    delivery: row.delivery || undefined,
+    host: row.host || undefined
+  };
+};
+
+export const runToRow = (run: RunLog) => ({
+  id: run.id,
+  workflow_id: run.workflowId,
+  status: run.status,
+  logs: run.steps,
+  duration: run.duration,
+  error_details: run.error || null,
+  resumed_from: run.resumedFrom || null,
+  input: run.input ?? null,
+  checkpoint_at: run.checkpointAt || null,
+  parent_run: run.parentRun || null,
+  output: run.output ?? null,
+  delivery: run.delivery || null,
+  host: run.host || null,
+  completed_at: run.status !== 'running' && run.status !== 'waiting' ? new Date().toISOString() : null
+});
@@ -0,0 +1,82 @@
+// Resume times for DELAY nodes: a relative duration or an absolute timestamp, optionally moved
+// forward into a business-hours window.
+import { BusinessHours, DelayMode } from '../types';
+import { parseDuration } from './duration';
+import { getZonedTime, fromZonedTime, isValidTimeZone } from './timezone';
+import { WorkflowError } from './errors';
+
+export const DELAY_MODES: DelayMode[] = ['for', 'until'];
+export const DEFAULT_BUSINESS_DAYS = [1, 2, 3, 4, 5];
+
+// Minutes since midnight for 'HH:MM', or null
+const parseClock = (value: string | undefined): number | null => {
+  const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec((value || '').trim());
+  return match ? parseInt(match[1]) * 60 + parseInt(match[2]) : null;
+};
+
+// Problems with a business-hours window, phrased to follow "Delay 'x' ..."
+export const validateBusinessHours = (hours: BusinessHours): string[] => {
+  const errors: string[] = [];
+  const start = parseClock(hours.start);
+  const end = parseClock(hours.end);
+  if (start === null) errors.push(`has an invalid business hours start '${hours.start || ''}' (use HH:MM)`);
+  if (end === null) errors.push(`has an invalid business hours end '${hours.end || ''}' (use HH:MM)`);
+  if (start !== null && end !== null && start >= end) errors.push('has business hours that end before they start');
+  if (hours.days && hours.days.length === 0) errors.push('has business hours on no days');
+  if (hours.timezone && !isValidTimeZone(hours.timezone)) errors.push(`has an unknown time zone '${hours.timezone}'`);
+  return errors;
+};
+
+// ISO strings, anything else Date.parse understands, and epoch milliseconds
+export const parseTimestamp = (value: any): Date | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value === 'number') return new Date(value);
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const time = /^\d+$/.test(value.trim()) ? parseInt(value) : Date.parse(value);
+  return isNaN(time) ? null : new Date(time);
+};
+
+// The first moment at or after `date` that lies inside the window
+export const nextBusinessTime = (date: Date, hours: BusinessHours): Date => {
+  const start = parseClock(hours.start);
+  const end = parseClock(hours.end);
+  if (start === null || end === null || start >= end) throw new WorkflowError('Invalid business hours.');
+  const days = hours.days || DEFAULT_BUSINESS_DAYS;
+  const now = getZonedTime(date, hours.timezone);
+  const minutes = now.hour * 60 + now.minute;
+
+  for (let offset = 0; offset <= 7; offset++) {
+    // Calendar arithmetic only: which date and weekday is `offset` days ahead in the zone
+    const day = new Date(Date.UTC(now.year, now.month - 1, now.day + offset));
+    if (!days.includes(day.getUTCDay())) continue;
+    if (offset === 0 && minutes >= end) continue;
+    if (offset === 0 && minutes >= start) return date;
+    return fromZonedTime({
+      year: day.getUTCFullYear(),
+      month: day.getUTCMonth() + 1,
+      day: day.getUTCDate(),
+      hour: Math.floor(start / 60),
+      minute: start % 60
+    }, hours.timezone);
+  }
+  throw new WorkflowError('Business hours do not include any day of the week.');
+};
+
+// When a DELAY node started at `from` resumes. `config` must already have its templates resolved.
+// Timestamps in the past resume immediately (or at the next business-hours opening).
+export const computeResumeTime = (config: Record<string, any>, from: Date): Date => {
+  let target: Date;
+  if ((config.mode || 'for') === 'until') {
+    const parsed = parseTimestamp(config.until);
+    if (!parsed) throw new WorkflowError(`Cannot wait until '${config.until ?? ''}': it is not a date.`);
+    target = parsed;
+  } else {
+    const ms = parseDuration(config.duration);
+    if (ms === null) throw new WorkflowError(`Invalid delay duration '${config.duration ?? ''}'.`);
+    target = new Date(from.getTime() + ms);
+  }
+  if (config.businessHours) {
+    target = nextBusinessTime(target < from ? from : target, config.businessHours);
+  }
+  return target;
+};
@@ -0,0 +1,46 @@
+// Duration strings in the Temporal style: '500ms', '30s', '5m', '1h', '2d' or combined ('1h30m').
+// Plain numbers are treated as milliseconds.
+
+const UNIT_MS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+// Returns the duration in milliseconds, or null if the string is not a valid duration
+export const parseDuration = (value: string | number | undefined | null): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value === 'number') return value >= 0 ? value : null;
+
+  const trimmed = value.trim().toLowerCase();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return parseFloat(trimmed);
+
+  const pattern = /(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)/g;
+  let total = 0;
+  let consumed = '';
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(trimmed)) !== null) {
+    total += parseFloat(match[1]) * UNIT_MS[match[2]];
+    consumed += match[0];
+  }
+  // Reject strings with leftovers such as '5 minutes' or '1x'
+  if (!consumed || consumed.replace(/\s/g, '') !== trimmed.replace(/\s/g, '')) return null;
+  return total;
+};
+
+// Human readable form of a millisecond duration ('1h 30m', '2.5s')
+export const describeDuration = (ms: number): string => {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60 * 1000) return `${+(ms / 1000).toFixed(1)}s`;
+  const parts: string[] = [];
+  let remaining = Math.round(ms / 1000);
+  for (const [unit, seconds] of [['d', 86400], ['h', 3600], ['m', 60], ['s', 1]] as const) {
+    if (remaining >= seconds) {
+      parts.push(`${Math.floor(remaining / seconds)}${unit}`);
+      remaining %= seconds;
+    }
+  }
+  return parts.join(' ');
+};
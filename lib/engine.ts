@@ -0,0 +1,85 @@
+// Headless entry point: runs workflow JSON in a Node worker, a test or a server, without React or the
+// browser. Hosts inject connectors, a clock and storage; nothing here reads the DOM, localStorage or
+// environment variables.
+//
+//   const engine = createEngine({ connectors: defaultConnectors.extend([crmConnector]), storage: createMemoryStorage(workflows) });
+//   const { isValid, errors } = engine.validate(workflow);
+//   const run = await engine.run(workflow, { orderId: 42 });
+import { Workflow, WorkflowNode, RunLog } from '../types';
+import {
+  executeWorkflow, processNode, resolveConfig, EngineEnvironment, ExecutionOptions, DEFAULT_ENVIRONMENT
+} from './workflowEngine';
+import { validateWorkflow, ValidationResult } from './workflowUtils';
+
+// Where runs are written and sub-workflow targets are looked up
+export interface EngineStorage {
+  getWorkflow(id: string): Workflow | undefined;
+  listWorkflows(): Workflow[];
+  // Called with the whole run on every change; later calls supersede earlier ones
+  saveRun(run: RunLog): void;
+}
+
+export interface MemoryStorage extends EngineStorage {
+  runs: Map<string, RunLog>;
+}
+
+export const createMemoryStorage = (workflows: Workflow[] = []): MemoryStorage => {
+  const runs = new Map<string, RunLog>();
+  return {
+    runs,
+    getWorkflow: (id) => workflows.find(w => w.id === id),
+    listWorkflows: () => workflows,
+    saveRun: (run) => { runs.set(run.id, run); }
+  };
+};
+
+export interface EngineOptions extends Partial<EngineEnvironment> {
+  storage?: EngineStorage;
+}
+
+export type RunOptions = Omit<ExecutionOptions, 'env' | 'loadWorkflow'>;
+
+export const createEngine = (options: EngineOptions = {}) => {
+  const { storage = createMemoryStorage(), ...environment } = options;
+  const env: EngineEnvironment = { ...DEFAULT_ENVIRONMENT, ...environment };
+
+  return {
+    env,
+    storage,
+    run: (workflow: Workflow, input: any = { trigger: 'manual_execution' }, runOptions: RunOptions = {}): Promise<RunLog> =>
+      executeWorkflow(workflow.id, workflow.name, workflow.nodes, workflow.edges, (run) => storage.saveRun(run), input, {
+        timeout: workflow.settings?.timeout,
+        ...runOptions,
+        loadWorkflow: (id) => storage.getWorkflow(id),
+        env
+      }),
+    // Sub-workflow targets and webhook paths are checked against the stored workflows, node operations
+    // against the engine's connectors
+    validate: (workflow: Workflow): ValidationResult =>
+      validateWorkflow(workflow.nodes, workflow.edges, {
+        workflowId: workflow.id, workflows: storage.listWorkflows(), connectors: env.connectors
+      }),
+    // Runs one node against an input, like the Test tab of the node editor
+    testNode: (node: WorkflowNode, input: any, signal?: AbortSignal) => processNode(node, input, signal, env),
+    resolveConfig: (config: any, context: any) => resolveConfig(config, context),
+    // Checks credentials with the connector of a service; false when there is none
+    testConnection: async (service: string, credentials: any): Promise<boolean> => {
+      const connector = env.connectors.get(service);
+      return connector ? connector.implementation.testConnection(credentials) : false;
+    }
+  };
+};
+
+export type Engine = ReturnType<typeof createEngine>;
+
+export type { EngineEnvironment, ExecutionOptions, ScriptRunner } from './workflowEngine';
+export { cancelRun, signalRun, isWaitOver, cancelWaitingRun, isRunOrphaned, CHECKPOINT_INTERVAL_MS } from './workflowEngine';
+export type {
+  Connector, ConnectorDefinition, ConnectorImplementation, ConnectorContext, ConnectorRegistry,
+  ActionDefinition, TriggerDefinition, ConfigSchema, FieldSchema, OperationHandler, StandardizedEvent, TextGenerator
+} from './connectorSdk';
+export { createConnectorRegistry } from './connectorSdk';
+export { BUILTIN_CONNECTORS, defaultConnectors } from './connectors';
+export type { Clock } from './clock';
+export { systemClock } from './clock';
+export type { ValidationResult } from './workflowUtils';
@@ -0,0 +1,56 @@
+// Typed errors raised while executing nodes. Retry policies match on `name`,
+// so it is set explicitly (class names do not survive minification).
+
+export class WorkflowError extends Error {
+  constructor(message: string, name = 'WorkflowError') {
+    super(message);
+    this.name = name;
+  }
+}
+
+// User script threw or returned something unusable. Deterministic, so not worth retrying by default.
+export class ScriptError extends WorkflowError {
+  constructor(message: string) {
+    super(message, 'ScriptError');
+  }
+}
+
+// Remote API answered with a non-2xx status
+export class HttpError extends WorkflowError {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message, 'HttpError');
+    this.status = status;
+  }
+}
+
+export class RateLimitError extends WorkflowError {
+  constructor(message: string) {
+    super(message, 'RateLimitError');
+  }
+}
+
+// A step attempt or the whole run exceeded its time budget
+export class TimeoutError extends WorkflowError {
+  constructor(message: string) {
+    super(message, 'TimeoutError');
+  }
+}
+
+// The run was stopped on purpose (e.g. from the Cancel button)
+export class CancelledError extends WorkflowError {
+  constructor(message: string) {
+    super(message, 'CancelledError');
+  }
+}
+
+// A {{ }} template could not be evaluated: bad syntax, unknown filter or unresolved reference
+export class ExpressionError extends WorkflowError {
+  constructor(message: string) {
+    super(message, 'ExpressionError');
+  }
+}
+
+// Names offered in the retry policy editor
+export const KNOWN_ERROR_TYPES = ['WorkflowError', 'ScriptError', 'HttpError', 'RateLimitError', 'TimeoutError', 'ExpressionError'];
@@ -0,0 +1,289 @@
+// Expression language used inside {{ }} templates.
+//
+//   {{ data.items[0].sku }}            nested paths and array indexing
+//   {{ name ?? 'there' }}              default when the left side is missing (undefined or null)
+//   {{ aiResult | upper }}             filters, chained left to right
+//   {{ tags | join(', ') | truncate(40) }}
+//
+// Filters bind looser than `??`, so `{{ name ?? 'there' | upper }}` upper-cases the default too.
+// Expressions are parsed by hand; nothing is ever passed to eval.
+import { ExpressionError } from './errors';
+
+type Token =
+  | { kind: 'ident', value: string, pos: number }
+  | { kind: 'number', value: number, pos: number }
+  | { kind: 'string', value: string, pos: number }
+  | { kind: 'punct', value: string, pos: number };
+
+type Expr =
+  | { kind: 'literal', value: any }
+  | { kind: 'path', root: string, segments: (string | number)[], source: string }
+  | { kind: 'coalesce', left: Expr, right: Expr }
+  | { kind: 'filter', name: string, target: Expr, args: Expr[] };
+
+const PUNCTUATION = ['??', '.', '[', ']', '(', ')', ',', '|'];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    const punct = PUNCTUATION.find(p => source.startsWith(p, i));
+    if (punct) {
+      tokens.push({ kind: 'punct', value: punct, pos: i });
+      i += punct.length;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      let value = '';
+      let j = i + 1;
+      while (j < source.length && source[j] !== char) {
+        if (source[j] === '\\' && j + 1 < source.length) j++;
+        value += source[j++];
+      }
+      if (j >= source.length) throw new ExpressionError(`Unterminated string in '${source}'.`);
+      tokens.push({ kind: 'string', value, pos: i });
+      i = j + 1;
+      continue;
+    }
+    const number = /^-?\d+(\.\d+)?/.exec(source.slice(i));
+    if (number) {
+      tokens.push({ kind: 'number', value: parseFloat(number[0]), pos: i });
+      i += number[0].length;
+      continue;
+    }
+    const ident = /^[A-Za-z_$][\w$-]*/.exec(source.slice(i));
+    if (ident) {
+      tokens.push({ kind: 'ident', value: ident[0], pos: i });
+      i += ident[0].length;
+      continue;
+    }
+    throw new ExpressionError(`Unexpected '${char}' at position ${i} in '${source}'.`);
+  }
+  return tokens;
+};
+
+const LITERAL_IDENTS: Record<string, any> = { true: true, false: false, null: null };
+
+const hasOwn = (value: any, key: string | number) => Object.prototype.hasOwnProperty.call(value, key);
+
+// Recursive descent over: pipeline := coalesce ('|' filter)*, coalesce := primary ('??' primary)*
+const parse = (source: string): Expr => {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isPunct = (value: string) => peek()?.kind === 'punct' && peek().value === value;
+  const fail = (expected: string): never => {
+    const token = peek();
+    throw new ExpressionError(token
+      ? `Expected ${expected} but found '${token.value}' at position ${token.pos} in '${source}'.`
+      : `Expected ${expected} at the end of '${source}'.`);
+  };
+  const expectPunct = (value: string) => {
+    if (!isPunct(value)) fail(`'${value}'`);
+    index++;
+  };
+
+  const parsePrimary = (): Expr => {
+    const token = peek();
+    if (!token) return fail('a value');
+    if (token.kind === 'string' || token.kind === 'number') {
+      index++;
+      return { kind: 'literal', value: token.value };
+    }
+    if (token.kind === 'punct' && token.value === '(') {
+      index++;
+      const inner = parsePipeline();
+      expectPunct(')');
+      return inner;
+    }
+    if (token.kind !== 'ident') return fail('a value');
+    index++;
+    if (hasOwn(LITERAL_IDENTS, token.value)) return { kind: 'literal', value: LITERAL_IDENTS[token.value] };
+
+    const segments: (string | number)[] = [];
+    const start = token.pos;
+    let end = token.pos + token.value.length;
+    while (isPunct('.') || isPunct('[')) {
+      if (isPunct('.')) {
+        index++;
+        const key = peek();
+        if (key?.kind !== 'ident' && key?.kind !== 'number') fail('a property name');
+        segments.push(String(key.value));
+        end = key.pos + String(key.value).length;
+        index++;
+      } else {
+        index++;
+        const key = peek();
+        if (key?.kind !== 'number' && key?.kind !== 'string') fail('an index or quoted key');
+        segments.push(key.value);
+        index++;
+        end = peek()?.pos ?? end;
+        expectPunct(']');
+        end++;
+      }
+    }
+    return { kind: 'path', root: token.value, segments, source: source.slice(start, end) };
+  };
+
+  const parseCoalesce = (): Expr => {
+    let expr = parsePrimary();
+    while (isPunct('??')) {
+      index++;
+      expr = { kind: 'coalesce', left: expr, right: parsePrimary() };
+    }
+    return expr;
+  };
+
+  const parsePipeline = (): Expr => {
+    let expr = parseCoalesce();
+    while (isPunct('|')) {
+      index++;
+      const name = peek();
+      if (name?.kind !== 'ident') fail('a filter name');
+      index++;
+      const args: Expr[] = [];
+      if (isPunct('(')) {
+        index++;
+        while (!isPunct(')')) {
+          args.push(parseCoalesce());
+          if (!isPunct(',')) break;
+          index++;
+        }
+        expectPunct(')');
+      }
+      expr = { kind: 'filter', name: String(name.value), target: expr, args };
+    }
+    return expr;
+  };
+
+  const expr = parsePipeline();
+  if (index < tokens.length) fail('the end of the expression');
+  return expr;
+};
+
+// --- Filters ---
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// Formats with YYYY, MM, DD, HH, mm, ss tokens (local time). Without a format the ISO string is used.
+const formatDate = (value: any, format?: string): string => {
+  const date = value instanceof Date ? value : new Date(typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : value);
+  if (isNaN(date.getTime())) throw new ExpressionError(`Filter 'date' cannot parse '${value}' as a date.`);
+  if (!format || format === 'iso') return date.toISOString();
+  const parts: Record<string, string> = {
+    YYYY: String(date.getFullYear()),
+    MM: pad(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    HH: pad(date.getHours()),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds())
+  };
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, token => parts[token]);
+};
+
+const toText = (value: any): string => {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+export const FILTERS: Record<string, (value: any, ...args: any[]) => any> = {
+  upper: (value) => toText(value).toUpperCase(),
+  lower: (value) => toText(value).toLowerCase(),
+  trim: (value) => toText(value).trim(),
+  date: (value, format?: string) => formatDate(value, format),
+  json: (value, indent?: number) => JSON.stringify(value, null, indent),
+  truncate: (value, length = 50, suffix = '...') => {
+    const text = toText(value);
+    return text.length > length ? text.slice(0, Math.max(0, length - suffix.length)) + suffix : text;
+  },
+  join: (value, separator = ', ') => {
+    if (!Array.isArray(value)) throw new ExpressionError(`Filter 'join' expects a list but got ${typeof value}.`);
+    return value.map(toText).join(separator);
+  },
+  length: (value) => Array.isArray(value) || typeof value === 'string' ? value.length : Object.keys(value ?? {}).length,
+  default: (value, fallback) => value === undefined || value === null || value === '' ? fallback : value
+};
+
+// --- Evaluation ---
+
+// Own properties only, so names like 'constructor' or '__proto__' are missing rather than the
+// prototype's members. Array items and a string's length are own properties too.
+const lookup = (value: any, key: string | number) =>
+  value === undefined || value === null || !hasOwn(value, key) ? undefined : value[key];
+
+// Missing references only throw when nothing (a ?? default or the default filter) handles them
+const evaluate = (expr: Expr, context: any, strict: boolean): any => {
+  switch (expr.kind) {
+    case 'literal':
+      return expr.value;
+    case 'path': {
+      const value = expr.segments.reduce(lookup, lookup(context, expr.root));
+      if (value === undefined && strict) {
+        const available = Object.keys(context ?? {});
+        throw new ExpressionError(`Unresolved reference '${expr.source}'` + (available.length
+          ? ` (available: ${available.slice(0, 10).join(', ')}${available.length > 10 ? ', ...' : ''}).`
+          : ' (the input is empty).'));
+      }
+      return value;
+    }
+    case 'coalesce': {
+      const left = evaluate(expr.left, context, false);
+      return left === undefined || left === null ? evaluate(expr.right, context, strict) : left;
+    }
+    case 'filter': {
+      const filter = hasOwn(FILTERS, expr.name) ? FILTERS[expr.name] : undefined;
+      if (!filter) {
+        throw new ExpressionError(`Unknown filter '${expr.name}'. Available filters: ${Object.keys(FILTERS).join(', ')}.`);
+      }
+      const target = evaluate(expr.target, context, strict && expr.name !== 'default');
+      return filter(target, ...expr.args.map(arg => evaluate(arg, context, strict)));
+    }
+  }
+};
+
+// Evaluates a single expression (the part between the braces) against a context
+export const evaluateExpression = (source: string, context: any): any => evaluate(parse(source.trim()), context, true);
+
+// Like evaluateExpression, but a missing reference yields undefined instead of throwing.
+// Accepts the expression with or without its surrounding braces.
+export const lookupExpression = (source: string, context: any): any =>
+  evaluate(parse(source.trim().replace(/^\{\{([\s\S]*)\}\}$/, '$1').trim()), context, false);
+
+const TEMPLATE_PATTERN = /\{\{([\s\S]+?)\}\}/g;
+const WHOLE_TEMPLATE_PATTERN = /^\s*\{\{([\s\S]+?)\}\}\s*$/;
+
+// Renders every {{ }} in a string. A string that is exactly one expression keeps the value's
+// type (so lists and objects can be mapped into fields); otherwise values are inserted as text.
+export const renderTemplate = (template: string, context: any): any => {
+  const whole = WHOLE_TEMPLATE_PATTERN.exec(template);
+  if (whole && !whole[1].includes('}}')) return evaluateExpression(whole[1], context);
+  return template.replace(TEMPLATE_PATTERN, (_, source) => toText(evaluateExpression(source, context)));
+};
+
+// Checks the syntax of every {{ }} in a string without evaluating it. Returns the error messages.
+export const validateTemplate = (template: string): string[] => {
+  const errors: string[] = [];
+  for (const match of template.matchAll(TEMPLATE_PATTERN)) {
+    try {
+      const expr = parse(match[1].trim());
+      const checkFilters = (e: Expr): void => {
+        if (e.kind === 'coalesce') { checkFilters(e.left); checkFilters(e.right); }
+        if (e.kind === 'filter') {
+          if (!hasOwn(FILTERS, e.name)) throw new ExpressionError(`Unknown filter '${e.name}'.`);
+          checkFilters(e.target);
+          e.args.forEach(checkFilters);
+        }
+      };
+      checkFilters(expr);
+    } catch (e: any) {
+      errors.push(e.message);
+    }
+  }
+  return errors;
+};
@@ -0,0 +1,99 @@
+// Decides which schedule triggers are due. Each trigger remembers when it was last checked, so fire
+// times that passed while no tab was open are found on the next check and handled by its catch-up policy.
+import { Workflow, WorkflowNode, NodeType, ScheduleCatchUp } from '../types';
+import { parseCron, cronTimesBetween } from './cron';
+import { isValidTimeZone } from './timezone';
+
+export const CATCH_UP_POLICIES: ScheduleCatchUp[] = ['skip', 'latest', 'all'];
+export const DEFAULT_CATCH_UP: ScheduleCatchUp = 'latest';
+export const SCHEDULER_INTERVAL_MS = 15000;
+
+// Fire times found this long after they passed still count as on time (background tabs throttle timers)
+const ON_TIME_GRACE_MS = 2 * 60 * 1000;
+// 'all' never starts more than this many missed runs at once
+export const MAX_CATCH_UP_RUNS = 10;
+// Outages longer than this are not searched for missed fire times
+const MAX_CATCH_UP_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+const STORAGE_KEY = 'automator_schedule';
+
+// When each trigger was last checked, keyed by `${workflowId}:${nodeId}`
+export interface ScheduleStore {
+  get(key: string): string | undefined;
+  set(key: string, checkedAt: string): void;
+}
+
+export const localScheduleStore: ScheduleStore = {
+  get: (key) => {
+    try {
+      return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}')[key];
+    } catch {
+      return undefined;
+    }
+  },
+  set: (key, checkedAt) => {
+    let saved: Record<string, string> = {};
+    try {
+      saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    } catch {}
+    saved[key] = checkedAt;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+  }
+};
+
+export const isScheduleTrigger = (node: WorkflowNode) => node.type === NodeType.TRIGGER && node.service === 'schedule';
+
+export interface DueRun {
+  workflow: Workflow;
+  node: WorkflowNode;
+  scheduledFor: Date;
+  missed: boolean; // Passed while nothing was checking; started because of the catch-up policy
+}
+
+// The initial input of a scheduled run
+export const scheduledRunInput = (due: DueRun, firedAt: Date) => ({
+  trigger: 'schedule',
+  triggerNodeId: due.node.id,
+  cron: due.node.config?.cron,
+  timezone: due.node.config?.timezone || null,
+  scheduledFor: due.scheduledFor.toISOString(),
+  firedAt: firedAt.toISOString(),
+  missed: due.missed
+});
+
+// Fire times of active workflows that came due since the previous check, oldest first. The check is
+// recorded before anything runs, so another tab checking right after finds nothing left to start.
+// Triggers seen for the first time, and those of inactive workflows, only start counting from `now`.
+export const collectDueRuns = (workflows: Workflow[], now: Date, store: ScheduleStore = localScheduleStore): DueRun[] => {
+  const due: DueRun[] = [];
+  workflows.forEach(workflow => {
+    workflow.nodes.filter(isScheduleTrigger).forEach(node => {
+      const key = `${workflow.id}:${node.id}`;
+      const lastChecked = store.get(key);
+      store.set(key, now.toISOString());
+      if (!lastChecked || workflow.status !== 'active') return;
+
+      const { cron, timezone } = node.config || {};
+      const catchUp: ScheduleCatchUp = node.config?.catchUp || DEFAULT_CATCH_UP;
+      let schedule;
+      try {
+        schedule = parseCron(cron);
+      } catch {
+        return; // Reported by validateWorkflow
+      }
+      if (timezone && !isValidTimeZone(timezone)) return;
+
+      const from = new Date(Math.max(Date.parse(lastChecked), now.getTime() - MAX_CATCH_UP_WINDOW_MS));
+      const times = cronTimesBetween(schedule, from, now, timezone || undefined);
+      const onTime = times.filter(t => now.getTime() - t.getTime() <= ON_TIME_GRACE_MS);
+      const missed = times.filter(t => now.getTime() - t.getTime() > ON_TIME_GRACE_MS);
+      const caughtUp = catchUp === 'all' ? missed.slice(-MAX_CATCH_UP_RUNS)
+        : catchUp === 'latest' ? missed.slice(-1)
+        : [];
+
+      caughtUp.forEach(t => due.push({ workflow, node, scheduledFor: t, missed: true }));
+      onTime.forEach(t => due.push({ workflow, node, scheduledFor: t, missed: false }));
+    });
+  });
+  return due.sort((a, b) => a.scheduledFor.getTime() - b.scheduledFor.getTime());
+};
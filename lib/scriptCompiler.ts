@@ -0,0 +1,202 @@
+// TypeScript support for SCRIPT nodes: type-checking in the editor and compiling to the
+// JavaScript the sandbox runs. The compiler is large, so it is only loaded the first time a
+// TypeScript script is edited; its standard library declarations are fetched from the CDN.
+import type * as TS from 'typescript';
+
+type TypeScript = typeof TS;
+
+const SCRIPT_FILE = 'script.ts';
+const ROOT_LIB = 'es2022';
+const LIB_CDN = 'https://cdn.jsdelivr.net/npm/typescript@{version}/lib/';
+const BODY_START = '//#region script';
+const BODY_END = '//#endregion script';
+
+export interface ScriptDiagnostic {
+  line: number; // 1-based, relative to the user's code
+  column: number;
+  message: string;
+  category: 'error' | 'warning';
+}
+
+// --- Loading ---
+
+let typescriptPromise: Promise<TypeScript> | null = null;
+let libFilesPromise: Promise<Map<string, TS.SourceFile>> | null = null;
+
+export const loadTypeScript = (): Promise<TypeScript> => {
+  if (!typescriptPromise) {
+    typescriptPromise = import('typescript')
+      .then((mod: any) => (mod.default ?? mod) as TypeScript)
+      .catch(e => {
+        typescriptPromise = null; // Allow another attempt, e.g. after going back online
+        throw e;
+      });
+  }
+  return typescriptPromise;
+};
+
+// Fetches lib.es2022.d.ts and every lib it references. No DOM lib: scripts run in a worker without one.
+const loadLibFiles = (ts: TypeScript): Promise<Map<string, TS.SourceFile>> => {
+  if (!libFilesPromise) {
+    libFilesPromise = (async () => {
+      const files = new Map<string, TS.SourceFile>();
+      const baseUrl = LIB_CDN.replace('{version}', ts.version);
+      let pending = [ROOT_LIB];
+      while (pending.length > 0) {
+        const names = pending.filter(name => !files.has(`lib.${name}.d.ts`));
+        const texts = await Promise.all(names.map(async name => {
+          const response = await fetch(`${baseUrl}lib.${name}.d.ts`);
+          if (!response.ok) throw new Error(`Could not load lib.${name}.d.ts (HTTP ${response.status}).`);
+          return response.text();
+        }));
+        pending = [];
+        names.forEach((name, i) => {
+          const fileName = `lib.${name}.d.ts`;
+          files.set(fileName, ts.createSourceFile(fileName, texts[i], ts.ScriptTarget.ES2022));
+          ts.preProcessFile(texts[i], true, true).libReferenceDirectives
+            .forEach(ref => pending.push(ref.fileName.toLowerCase()));
+        });
+      }
+      return files;
+    })().catch(e => {
+      libFilesPromise = null;
+      throw e;
+    });
+  }
+  return libFilesPromise;
+};
+
+// --- Input type inference ---
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+const MAX_TYPE_DEPTH = 5;
+
+const propertyName = (key: string) => IDENTIFIER.test(key) ? key : JSON.stringify(key);
+
+// TypeScript type literal describing a JSON value, e.g. { id: number; tags: string[] }
+export const describeValueType = (value: any, indent = '', depth = 0): string => {
+  if (value === null) return 'null';
+  if (value === undefined) return 'undefined';
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return typeof value;
+  if (depth >= MAX_TYPE_DEPTH) return 'any';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return 'unknown[]';
+    const members = Array.from(new Set(value.slice(0, 20).map(item => describeValueType(item, indent, depth + 1))));
+    return members.length === 1 && !members[0].includes('\n') ? `${members[0]}[]` : `Array<${members.join(' | ')}>`;
+  }
+  if (typeof value === 'object') {
+    const keys = Object.keys(value);
+    if (keys.length === 0) return 'Record<string, unknown>';
+    const inner = indent + '  ';
+    return `{\n${keys.map(key => `${inner}${propertyName(key)}: ${describeValueType(value[key], inner, depth + 1)};`).join('\n')}\n${indent}}`;
+  }
+  return 'unknown';
+};
+
+export interface UpstreamFields {
+  slug: string; // Step slug, for input.steps.<slug>
+  fields: string[]; // Output fields the node is known to produce; their types are unknown
+}
+
+// Declares `interface Input` from sample payloads (test input and fixtures) and the fields upstream
+// nodes produce. Sample values give precise types, upstream fields are optional `any`, and anything
+// else is `unknown` so it has to be checked before use.
+export const buildInputType = (samples: any[], upstream: UpstreamFields[]): string => {
+  const sample = samples
+    .filter(s => typeof s === 'object' && s !== null && !Array.isArray(s))
+    .reduce((merged, s) => ({ ...merged, ...s }), {} as Record<string, any>);
+  const lines: string[] = [];
+  Object.keys(sample).filter(key => key !== 'steps').forEach(key => {
+    lines.push(`  ${propertyName(key)}: ${describeValueType(sample[key], '  ', 1)};`);
+  });
+  const declared = new Set(Object.keys(sample));
+  upstream.flatMap(u => u.fields).forEach(field => {
+    if (declared.has(field)) return;
+    declared.add(field);
+    lines.push(`  ${propertyName(field)}?: any;`);
+  });
+  if (upstream.length > 0) {
+    const steps = upstream.map(u => {
+      const fields = u.fields.map(f => `${propertyName(f)}?: any; `).join('');
+      return `    ${propertyName(u.slug)}: { ${fields}[key: string]: unknown };`;
+    });
+    lines.push(`  steps: {\n${steps.join('\n')}\n  };`);
+  }
+  lines.push('  [key: string]: unknown;');
+  return `interface Input {\n${lines.join('\n')}\n}`;
+};
+
+// --- Checking and compiling ---
+
+// Globals available inside the sandbox worker
+const SANDBOX_GLOBALS = `declare const console: {
+  log(...data: any[]): void;
+  info(...data: any[]): void;
+  warn(...data: any[]): void;
+  error(...data: any[]): void;
+  debug(...data: any[]): void;
+};
+declare function setTimeout(handler: (...args: any[]) => void, timeout?: number): number;
+declare function clearTimeout(id?: number): void;`;
+
+// Script code is the body of an async function, so it is wrapped before it is compiled
+const wrapScript = (code: string, inputType: string) =>
+  `${inputType}\n${SANDBOX_GLOBALS}\nasync function __script(input: Input): Promise<unknown> {\n${BODY_START}\n${code}\n${BODY_END}\n}\nexport {};\n`;
+
+// Type-checks a script against an input type from buildInputType
+export const checkScript = async (code: string, inputType: string): Promise<ScriptDiagnostic[]> => {
+  const ts = await loadTypeScript();
+  const libFiles = await loadLibFiles(ts);
+  const source = wrapScript(code, inputType);
+  const scriptFile = ts.createSourceFile(SCRIPT_FILE, source, ts.ScriptTarget.ES2022, true);
+  const firstLine = source.slice(0, source.indexOf(BODY_START)).split('\n').length; // Zero-based line after the marker
+
+  const options: TS.CompilerOptions = {
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    lib: [`lib.${ROOT_LIB}.d.ts`],
+    strict: true,
+    noEmit: true,
+    types: []
+  };
+  const lookup = (fileName: string) => fileName === SCRIPT_FILE ? scriptFile : libFiles.get(fileName.replace(/^.*\//, ''));
+  const host: TS.CompilerHost = {
+    getSourceFile: lookup,
+    getDefaultLibFileName: () => `lib.${ROOT_LIB}.d.ts`,
+    writeFile: () => {},
+    getCurrentDirectory: () => '',
+    getCanonicalFileName: fileName => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: fileName => lookup(fileName) !== undefined,
+    readFile: fileName => lookup(fileName)?.text,
+    getDirectories: () => []
+  };
+
+  const program = ts.createProgram([SCRIPT_FILE], options, host);
+  return ts.getPreEmitDiagnostics(program, scriptFile)
+    .filter(d => d.file === scriptFile && d.start !== undefined)
+    .map(d => {
+      const { line, character } = scriptFile.getLineAndCharacterOfPosition(d.start!);
+      return {
+        line: line - firstLine + 1,
+        column: character + 1,
+        message: ts.flattenDiagnosticMessageText(d.messageText, '\n'),
+        category: d.category === ts.DiagnosticCategory.Error ? 'error' as const : 'warning' as const
+      };
+    })
+    // Problems in the generated wrapper (e.g. a bad sample key) are not the script's fault
+    .filter(d => d.line >= 1 && d.line <= code.split('\n').length);
+};
+
+// Strips the types. The result is the function body the sandbox expects.
+export const compileScript = async (code: string): Promise<string> => {
+  const ts = await loadTypeScript();
+  const { outputText } = ts.transpileModule(wrapScript(code, 'type Input = any;'), {
+    compilerOptions: { target: ts.ScriptTarget.ES2022, module: ts.ModuleKind.ESNext, removeComments: false }
+  });
+  const start = outputText.indexOf(BODY_START);
+  const end = outputText.lastIndexOf(BODY_END);
+  if (start === -1 || end === -1) throw new Error('Could not compile the script.');
+  return outputText.slice(start + BODY_START.length, end).trim();
+};
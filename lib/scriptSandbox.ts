@@ -0,0 +1,143 @@
+// Runs SCRIPT node code in a throwaway Web Worker.
+//
+// Each run gets a fresh worker, so an infinite loop only blocks that worker and is stopped by
+// terminating it. Workers have no DOM, window or localStorage (and so no Supabase session), and
+// the network and messaging globals are removed before user code runs. Code that calls import()
+// is refused, and once the script is compiled no further code can be created from strings. The
+// code is the body of an async function: it receives `input`, may `await`, and its return value
+// becomes the output.
+import { ScriptError } from './errors';
+import { describeDuration } from './duration';
+
+export const DEFAULT_SCRIPT_TIMEOUT_MS = 10000;
+const MAX_CONSOLE_LINES = 200;
+const MAX_RESULT_CHARS = 1000000; // Serialized size of the returned value
+// Heap a script may use. Node worker threads enforce it; in the browser the worker checks its heap
+// between turns where the browser reports it (Chromium), and the timeout covers the rest.
+export const SCRIPT_MEMORY_LIMIT_MB = 128;
+const MEMORY_CHECK_INTERVAL_MS = 100;
+
+export interface ScriptOutcome {
+  result?: any;
+  error?: string; // Set when the script threw or returned something unusable
+  console: string[]; // Captured console output, one entry per call
+}
+
+export interface SandboxOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+// Worker source, kept as a string so it needs no bundler support and cannot close over app state.
+// Node hosts run the same source in a worker thread (see server/nodeEnvironment.ts).
+export const SCRIPT_WORKER_SOURCE = `
+'use strict';
+const send = self.postMessage.bind(self);
+const BLOCKED_GLOBALS = ['postMessage', 'close', 'importScripts', 'fetch', 'XMLHttpRequest', 'WebSocket',
+  'EventSource', 'indexedDB', 'caches', 'navigator', 'location', 'Worker', 'SharedWorker', 'BroadcastChannel'];
+for (const name of BLOCKED_GLOBALS) {
+  try { Object.defineProperty(self, name, { value: undefined, configurable: false, writable: false }); } catch (e) {}
+}
+const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+const every = self.setInterval.bind(self);
+const stopEvery = self.clearInterval.bind(self);
+// Also allows comments between the keyword and the parenthesis
+const IMPORT_CALL = /\\bimport\\s*(?:\\/\\*[\\s\\S]*?\\*\\/\\s*|\\/\\/[^\\n]*\\n\\s*)*\\(/;
+// Removes every way of compiling code from strings: the Function constructors, eval and string timers
+const lockCodeGeneration = () => {
+  for (const fn of [function () {}, async function () {}, function* () {}, async function* () {}]) {
+    try { Object.defineProperty(Object.getPrototypeOf(fn), 'constructor', { value: undefined }); } catch (e) {}
+  }
+  for (const name of ['Function', 'eval']) {
+    try { Object.defineProperty(self, name, { value: undefined, configurable: false, writable: false }); } catch (e) {}
+  }
+  for (const name of ['setTimeout', 'setInterval']) {
+    const schedule = self[name].bind(self);
+    self[name] = (handler, ...args) => {
+      if (typeof handler !== 'function') throw new TypeError(name + ' needs a function.');
+      return schedule(handler, ...args);
+    };
+  }
+};
+const heapUsed = () => self.performance && self.performance.memory ? self.performance.memory.usedJSHeapSize : 0;
+const format = (value) => {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error) return value.name + ': ' + value.message;
+  try { return JSON.stringify(value) ?? String(value); } catch (e) { return String(value); }
+};
+
+self.onmessage = async (event) => {
+  const { code, input } = event.data;
+  const lines = [];
+  const write = (level) => (...args) => {
+    if (lines.length === ${MAX_CONSOLE_LINES}) lines.push('... further console output dropped');
+    if (lines.length > ${MAX_CONSOLE_LINES}) return;
+    lines.push((level === 'log' ? '' : '[' + level + '] ') + args.map(format).join(' '));
+  };
+  const sandboxConsole = { log: write('log'), info: write('info'), warn: write('warn'), error: write('error'), debug: write('debug') };
+  const memoryCheck = every(() => {
+    if (heapUsed() > ${SCRIPT_MEMORY_LIMIT_MB} * 1024 * 1024) {
+      send({ error: 'Script used more than ${SCRIPT_MEMORY_LIMIT_MB} MB of memory and was stopped.', console: lines });
+    }
+  }, ${MEMORY_CHECK_INTERVAL_MS});
+  try {
+    if (IMPORT_CALL.test(code)) throw new Error('Scripts cannot load modules with import().');
+    const fn = new AsyncFunction('input', 'console', 'self', 'globalThis', '"use strict";\\n' + code);
+    lockCodeGeneration();
+    const value = await fn.call(undefined, input, sandboxConsole, undefined, undefined);
+    const json = value === undefined ? undefined : JSON.stringify(value);
+    if (json !== undefined && json.length > ${MAX_RESULT_CHARS}) {
+      throw new Error('Returned value is too large (' + json.length + ' characters, limit ${MAX_RESULT_CHARS}).');
+    }
+    send({ result: json === undefined ? undefined : JSON.parse(json), console: lines });
+  } catch (e) {
+    send({ error: e && e.message ? e.message : String(e), console: lines });
+  } finally {
+    stopEvery(memoryCheck);
+  }
+};
+`;
+
+// Executes the script and resolves with its result or error. Rejects only when the worker has to
+// be stopped: on timeout (ScriptError, so it is not retried by default) or when the signal aborts.
+export const runScriptInSandbox = (code: string, input: any, options: SandboxOptions = {}): Promise<ScriptOutcome> => {
+  const { timeoutMs = DEFAULT_SCRIPT_TIMEOUT_MS, signal } = options;
+  return new Promise<ScriptOutcome>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    if (typeof Worker === 'undefined') {
+      return reject(new ScriptError('Scripts need Web Worker support, which is not available here.'));
+    }
+
+    const url = URL.createObjectURL(new Blob([SCRIPT_WORKER_SOURCE], { type: 'text/javascript' }));
+    const worker = new Worker(url);
+    const finish = (settle: () => void) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+      URL.revokeObjectURL(url);
+      settle();
+    };
+    const onAbort = () => finish(() => reject(signal!.reason));
+    const timer = setTimeout(() => finish(() => reject(
+      new ScriptError(`Script did not finish within ${describeDuration(timeoutMs)} and was stopped.`)
+    )), timeoutMs);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    worker.onmessage = (event: MessageEvent) => finish(() => resolve(event.data as ScriptOutcome));
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      finish(() => reject(new ScriptError(`Script worker crashed: ${event.message || 'unknown error'}`)));
+    };
+
+    try {
+      worker.postMessage({ code, input });
+    } catch (e: any) {
+      // Input that cannot be cloned, e.g. containing functions
+      finish(() => reject(new ScriptError(`Could not pass the input to the script: ${e.message}`)));
+    }
+  });
+};
+
+// What a script contributes to the step output: returned objects are merged, anything else is kept as `result`
+export const toScriptOutput = (result: any): Record<string, any> =>
+  typeof result === 'object' && result !== null && !Array.isArray(result) ? result : { result };
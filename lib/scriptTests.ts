@@ -0,0 +1,61 @@
+import { ScriptTestCase } from '../types';
+import { runScriptInSandbox, toScriptOutput } from './scriptSandbox';
+
+export interface ScriptTestResult {
+  id: string;
+  passed: boolean;
+  output?: any;
+  console: string[];
+  failures: string[]; // One line per mismatching field, or the error that stopped the test
+}
+
+export const createScriptTestCase = (index: number): ScriptTestCase => ({
+  id: `test-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  name: `Test ${index + 1}`,
+  input: '{}',
+  expected: '{}'
+});
+
+const isPlainObject = (value: any) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Every field in `expected` must be deep-equal in `actual`; nested objects are matched the same way
+const collectMismatches = (expected: any, actual: any, path: string, failures: string[]) => {
+  if (isPlainObject(expected) && isPlainObject(actual)) {
+    Object.keys(expected).forEach(key => collectMismatches(expected[key], actual[key], path ? `${path}.${key}` : key, failures));
+    return;
+  }
+  if (JSON.stringify(expected) !== JSON.stringify(actual)) {
+    failures.push(`${path || 'output'}: expected ${JSON.stringify(expected)}, got ${actual === undefined ? 'undefined' : JSON.stringify(actual)}`);
+  }
+};
+
+const parseFixture = (text: string, what: string) => {
+  try {
+    return JSON.parse(text || '{}');
+  } catch (e: any) {
+    throw new Error(`${what} is not valid JSON: ${e.message}`);
+  }
+};
+
+// Runs compiled script code against each fixture, one after another, in the same sandbox as the engine
+export const runScriptTests = async (code: string, cases: ScriptTestCase[]): Promise<ScriptTestResult[]> => {
+  const results: ScriptTestResult[] = [];
+  for (const testCase of cases) {
+    try {
+      const input = parseFixture(testCase.input, 'Input');
+      const expected = parseFixture(testCase.expected, 'Expected output');
+      const outcome = await runScriptInSandbox(code, input);
+      if (outcome.error !== undefined) {
+        results.push({ id: testCase.id, passed: false, console: outcome.console, failures: [`Script Error: ${outcome.error}`] });
+        continue;
+      }
+      const output = toScriptOutput(outcome.result);
+      const failures: string[] = [];
+      collectMismatches(expected, output, '', failures);
+      results.push({ id: testCase.id, passed: failures.length === 0, output, console: outcome.console, failures });
+    } catch (e: any) {
+      results.push({ id: testCase.id, passed: false, console: [], failures: [e.message] });
+    }
+  }
+  return results;
+};
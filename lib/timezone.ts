@@ -0,0 +1,68 @@
+// Wall-clock arithmetic in IANA time zones, built on Intl so no zone database has to be shipped.
+// Without a zone the browser's local time is used.
+
+export interface ZonedTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone?: string) => {
+  const key = timeZone || '';
+  if (!formatters.has(key)) {
+    formatters.set(key, new Intl.DateTimeFormat('en-US', {
+      timeZone: timeZone || undefined,
+      hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric',
+      hour: 'numeric', minute: 'numeric', second: 'numeric',
+      weekday: 'short'
+    }));
+  }
+  return formatters.get(key)!;
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const getZonedTime = (date: Date, timeZone?: string): ZonedTime => {
+  const parts: Record<string, string> = {};
+  getFormatter(timeZone).formatToParts(date).forEach(p => { parts[p.type] = p.value; });
+  return {
+    year: parseInt(parts.year),
+    month: parseInt(parts.month),
+    day: parseInt(parts.day),
+    hour: parseInt(parts.hour) % 24,
+    minute: parseInt(parts.minute),
+    second: parseInt(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday)
+  };
+};
+
+type WallClock = Pick<ZonedTime, 'year' | 'month' | 'day' | 'hour' | 'minute'> & { second?: number };
+
+// The instant a wall-clock time occurs in the zone. Fields may overflow (day 32 is the 1st of the
+// next month). A time skipped by a DST change resolves to the same offset as just before the change.
+export const fromZonedTime = (time: WallClock, timeZone?: string): Date => {
+  const asUtc = Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute, time.second ?? 0);
+  const offsetAt = (instant: number) => {
+    const t = getZonedTime(new Date(instant), timeZone);
+    return Date.UTC(t.year, t.month - 1, t.day, t.hour, t.minute, t.second) - Math.floor(instant / 1000) * 1000;
+  };
+  const first = asUtc - offsetAt(asUtc);
+  // The offset at the guess can differ from the offset at the result near a DST change
+  const second = asUtc - offsetAt(first);
+  return new Date(second);
+};
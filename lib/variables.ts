@@ -0,0 +1,239 @@
+// The {{ }} variables available at a node: what each upstream step adds to the run context, from
+// its connector's output schema, its last test in the editor and its output in recent runs.
+import { WorkflowNode, WorkflowEdge, RunLog, RunStep, NodeType } from '../types';
+import { ConnectorRegistry, FieldSchema, OutputSchema } from './connectorSdk';
+import { getUpstreamNodes, getStepSlugs, getLoopBodyIds, STEPS_NAMESPACE } from './workflowUtils';
+
+export type VariableSource = 'schema' | 'test' | 'run';
+
+export interface Variable {
+  path: string; // Relative to the step, e.g. 'data.status' or 'rows[0].name'
+  type: string;
+  description?: string;
+  sample?: string; // The last value seen, shortened
+  source: VariableSource; // Where the type and sample come from
+}
+
+export interface StepVariables {
+  nodeId: string;
+  label: string;
+  prefix?: string; // steps.<slug>; unset for values only in the flat context, like a loop's item
+  variables: Variable[];
+}
+
+// One {{ }} expression offered for completion
+export interface VariableSuggestion {
+  expression: string;
+  type: string;
+  step: string; // Label of the step that produces it
+  description?: string;
+  sample?: string;
+}
+
+// Nested objects are listed this deep; below that the whole value is still available
+const MAX_DEPTH = 3;
+const MAX_SAMPLE_LENGTH = 40;
+// Only this many of the most recent runs are searched for a step's output
+const MAX_RUNS_SEARCHED = 20;
+
+const TEST_RESULTS_KEY = 'automator_test_results';
+
+// What each node produced the last time it was tested in the editor, keyed by `${workflowId}:${nodeId}`
+export interface TestResultStore {
+  get(key: string): any;
+  set(key: string, produced: any): void;
+}
+
+export const localTestResultStore: TestResultStore = {
+  get: (key) => {
+    try {
+      return JSON.parse(localStorage.getItem(TEST_RESULTS_KEY) || '{}')[key];
+    } catch {
+      return undefined;
+    }
+  },
+  set: (key, produced) => {
+    let saved: Record<string, any> = {};
+    try {
+      saved = JSON.parse(localStorage.getItem(TEST_RESULTS_KEY) || '{}');
+    } catch {}
+    saved[key] = produced;
+    localStorage.setItem(TEST_RESULTS_KEY, JSON.stringify(saved));
+  }
+};
+
+// Unsaved workflows share one key until they get an id
+export const testResultKey = (workflowId: string | undefined, nodeId: string) => `${workflowId || 'draft'}:${nodeId}`;
+
+const describeType = (value: any) => Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+
+const shorten = (value: any) => {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > MAX_SAMPLE_LENGTH ? `${text.slice(0, MAX_SAMPLE_LENGTH - 1)}…` : text;
+};
+
+const fromSchema = (properties: Record<string, FieldSchema>, prefix = '', depth = 0): Variable[] =>
+  Object.entries(properties).flatMap(([key, field]) => {
+    const path = `${prefix}${key}`;
+    const own: Variable = { path, type: field.type, description: field.description, source: 'schema' };
+    if (depth + 1 >= MAX_DEPTH) return [own];
+    if (field.type === 'object' && field.properties) return [own, ...fromSchema(field.properties, `${path}.`, depth + 1)];
+    if (field.type === 'array' && field.items?.properties) return [own, ...fromSchema(field.items.properties, `${path}[0].`, depth + 1)];
+    return [own];
+  });
+
+const fromSample = (value: Record<string, any>, source: VariableSource, prefix = '', depth = 0): Variable[] =>
+  Object.entries(value).flatMap(([key, item]) => {
+    if (depth === 0 && key === STEPS_NAMESPACE) return [];
+    const path = `${prefix}${key}`;
+    const own: Variable = { path, type: describeType(item), sample: item === undefined ? undefined : shorten(item), source };
+    if (depth + 1 >= MAX_DEPTH) return [own];
+    if (describeType(item) === 'object') return [own, ...fromSample(item, source, `${path}.`, depth + 1)];
+    if (Array.isArray(item) && describeType(item[0]) === 'object') return [own, ...fromSample(item[0], source, `${path}[0].`, depth + 1)];
+    return [own];
+  });
+
+// Later lists win on type and sample; descriptions are kept from whichever list has one
+const mergeVariables = (...lists: Variable[][]): Variable[] => {
+  const byPath = new Map<string, Variable>();
+  lists.flat().forEach(v => {
+    const known = byPath.get(v.path);
+    byPath.set(v.path, known ? { ...v, description: v.description || known.description } : v);
+  });
+  return [...byPath.values()];
+};
+
+// What the engine adds for its own node types
+const getEngineOutput = (node: WorkflowNode): OutputSchema | undefined => {
+  const outputKey = node.config?.outputKey;
+  switch (node.type) {
+    case NodeType.CONDITION:
+      return { type: 'object', properties: { conditionResult: { type: 'boolean' } } };
+    case NodeType.SWITCH:
+      return { type: 'object', properties: { switchCase: { type: 'string', description: 'The case whose path was taken.' } } };
+    case NodeType.FOREACH:
+      return { type: 'object', properties: { [node.config?.resultKey || 'results']: { type: 'array', description: 'What each iteration produced.' } } };
+    case NodeType.MERGE:
+      return node.config?.strategy === 'by-branch' || node.config?.strategy === 'append'
+        ? { type: 'object', properties: { [outputKey || 'merged']: { type: node.config.strategy === 'append' ? 'array' : 'object' } } }
+        : undefined;
+    case NodeType.SUBWORKFLOW:
+      return {
+        type: 'object',
+        properties: {
+          childRunId: { type: 'string' },
+          ...(outputKey ? { [outputKey]: { type: 'object', description: 'The called workflow\'s output.' } } : {})
+        }
+      };
+    case NodeType.APPROVAL:
+      return {
+        type: 'object',
+        properties: {
+          approval: {
+            type: 'object',
+            properties: {
+              decision: { type: 'string' },
+              comment: { type: 'string' },
+              actor: { type: 'string' },
+              decidedAt: { type: 'string' }
+            }
+          }
+        }
+      };
+    case NodeType.DELAY:
+      return { type: 'object', properties: { waitedUntil: { type: 'string' } } };
+    default:
+      return undefined;
+  }
+};
+
+// The output schema of a node: the engine's for control-flow nodes, its connector operation's otherwise
+export const getOutputSchema = (node: WorkflowNode, connectors: ConnectorRegistry): OutputSchema | undefined => {
+  const engineOutput = getEngineOutput(node);
+  if (engineOutput || node.type === NodeType.SCRIPT) return engineOutput;
+  try {
+    return connectors.resolve(node)?.operation.output;
+  } catch {
+    return undefined; // Unknown operations are reported by validation
+  }
+};
+
+// What a step added to the run context: its recorded `produced`, or for older runs its output
+// without the input it received. Triggers produce the whole run input.
+export const getStepProduced = (step: RunStep, node: WorkflowNode): Record<string, any> => {
+  if (step.produced) return step.produced;
+  // Runs recorded before steps kept `produced`
+  const { [STEPS_NAMESPACE]: _steps, ...output } = step.output || {};
+  if (node.type === NodeType.TRIGGER) return output;
+  return Object.fromEntries(
+    Object.entries(output).filter(([key, value]) => JSON.stringify(value) !== JSON.stringify(step.input?.[key]))
+  );
+};
+
+export interface VariableSources {
+  connectors: ConnectorRegistry;
+  runs?: RunLog[]; // Runs of the workflow, newest first
+  getTestResult?: (nodeId: string) => any; // What the node produced in its last test
+}
+
+const getLastRunOutput = (node: WorkflowNode, runs: RunLog[]) => {
+  for (const run of runs.slice(0, MAX_RUNS_SEARCHED)) {
+    const step = [...run.steps].reverse().find(s => s.nodeId === node.id && s.status === 'success' && s.output);
+    if (step) return getStepProduced(step, node);
+  }
+  return undefined;
+};
+
+// The variables one node produces
+export const getNodeVariables = (node: WorkflowNode, sources: VariableSources): Variable[] => {
+  const schema = getOutputSchema(node, sources.connectors);
+  const runOutput = getLastRunOutput(node, sources.runs || []);
+  const testOutput = sources.getTestResult?.(node.id);
+  const isObject = (value: any) => describeType(value) === 'object';
+  return mergeVariables(
+    schema ? fromSchema(schema.properties) : [],
+    isObject(runOutput) ? fromSample(runOutput, 'run') : [],
+    isObject(testOutput) ? fromSample(testOutput, 'test') : []
+  );
+};
+
+// The variables each upstream node makes available at nodeId, in workflow order. Inside a loop body
+// the loop contributes its item and index.
+export const getAvailableVariables = (
+  nodes: WorkflowNode[],
+  edges: WorkflowEdge[],
+  nodeId: string,
+  sources: VariableSources
+): StepVariables[] => {
+  const slugs = getStepSlugs(nodes);
+  return getUpstreamNodes(nodes, edges, nodeId).map(node => {
+    if (node.type === NodeType.FOREACH && getLoopBodyIds(edges, node.id).has(nodeId)) {
+      return {
+        nodeId: node.id,
+        label: node.label,
+        variables: [
+          { path: node.config?.itemVariable || 'item', type: 'any', description: 'The current item.', source: 'schema' as const },
+          { path: 'index', type: 'number', description: 'Zero-based iteration.', source: 'schema' as const }
+        ]
+      };
+    }
+    return {
+      nodeId: node.id,
+      label: node.label,
+      prefix: `${STEPS_NAMESPACE}.${slugs.get(node.id)}`,
+      variables: getNodeVariables(node, sources)
+    };
+  });
+};
+
+// Flat names (a later step writing the same name wins, as in a run) and the step paths of every variable
+export const listSuggestions = (groups: StepVariables[]): VariableSuggestion[] => {
+  const flat = new Map<string, VariableSuggestion>();
+  const byStep: VariableSuggestion[] = [];
+  groups.forEach(group => group.variables.forEach(v => {
+    const suggestion = { type: v.type, step: group.label, description: v.description, sample: v.sample };
+    flat.set(v.path, { ...suggestion, expression: v.path });
+    if (group.prefix) byStep.push({ ...suggestion, expression: `${group.prefix}.${v.path}` });
+  }));
+  return [...flat.values(), ...byStep];
+};
@@ -0,0 +1,58 @@
+// Webhook triggers: which workflow a request to /hooks/<path> starts, HMAC signatures and the run input.
+// Shared by the local webhook server and the builder, so it only relies on Web APIs.
+import { Workflow, WorkflowNode, NodeType, WebhookDelivery } from '../types';
+
+export const WEBHOOK_PATH_PREFIX = '/hooks/';
+export const WEBHOOK_SIGNATURE_HEADER = 'x-automator-signature';
+export const DEFAULT_WEBHOOK_PORT = 8787;
+export const WEBHOOK_PATH_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export const isWebhookTrigger = (node: WorkflowNode) => node.type === NodeType.TRIGGER && node.service === 'webhook';
+
+// The path segment after /hooks/: config.path when set, otherwise the workflow id
+export const getWebhookPath = (workflowId: string, node: WorkflowNode): string =>
+  (node.config?.path || '').trim() || workflowId;
+
+export interface WebhookRoute {
+  workflow: Workflow;
+  node: WorkflowNode;
+}
+
+export const findWebhookRoute = (workflows: Workflow[], path: string): WebhookRoute | undefined => {
+  for (const workflow of workflows) {
+    const node = workflow.nodes.find(n => isWebhookTrigger(n) && getWebhookPath(workflow.id, n) === path);
+    if (node) return { workflow, node };
+  }
+  return undefined;
+};
+
+const toBytes = (body: string | Uint8Array) => typeof body === 'string' ? new TextEncoder().encode(body) : body;
+
+// 'sha256=' followed by the hex HMAC-SHA256 of the raw request body, as expected in the signature header
+export const signWebhookPayload = async (secret: string, body: string | Uint8Array): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', toBytes(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, toBytes(body)));
+  return 'sha256=' + Array.from(mac, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Compares in constant time, so a forged signature does not reveal how much of it was right
+export const verifyWebhookSignature = async (secret: string, body: string | Uint8Array, header: string | undefined): Promise<boolean> => {
+  if (!header) return false;
+  const expected = await signWebhookPayload(secret, body);
+  const received = header.trim().toLowerCase();
+  if (received.length !== expected.length) return false;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) diff |= expected.charCodeAt(i) ^ received.charCodeAt(i);
+  return diff === 0;
+};
+
+// The initial input of a webhook run. The TRIGGER step passes it on, so later nodes use {{body.x}}.
+export const buildWebhookInput = (delivery: WebhookDelivery, body: any) => ({
+  trigger: 'webhook',
+  deliveryId: delivery.id,
+  method: delivery.method,
+  path: delivery.path,
+  body,
+  headers: delivery.headers,
+  query: delivery.query
+});
@@ -1,6 +1,15 @@
 
-import { WorkflowNode, WorkflowEdge, RunLog, RunStep, NodeType } from '../types';
-import { performAIAction } from '../services/geminiService';
+import { Workflow, WorkflowNode, WorkflowEdge, RunLog, RunStep, RunParentLink, RunSignal, WebhookDelivery, RunWait, RunHost, NodeType, MergeMode, MergeStrategy, RetryPolicy } from '../types';
+import { getLoopBodyIds, collectReachable, getStepSlugs, getSwitchCases, ERROR_EDGE_LABEL, SWITCH_DEFAULT_LABEL, APPROVAL_EXPIRED_LABEL, STEPS_NAMESPACE } from './workflowUtils';
+import { parseDuration, describeDuration } from './duration';
+import { renderTemplate, evaluateExpression } from './expressions';
+import { evaluateConditions, evaluateSwitch, getConditionGroup } from './conditions';
+import { toScriptOutput, DEFAULT_SCRIPT_TIMEOUT_MS, ScriptOutcome, SandboxOptions } from './scriptSandbox';
+import { computeResumeTime } from './delay';
+import { WorkflowError, ScriptError, TimeoutError, CancelledError, ExpressionError } from './errors';
+import { Clock, systemClock } from './clock';
+import { ConnectorRegistry, TextGenerator, withDefaults } from './connectorSdk';
+import { defaultConnectors } from './connectors';
 
 export interface ExecutionResult {
   runId: string;
@@ -9,50 +18,150 @@ export interface ExecutionResult {
   duration: string;
 }
 
-const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// --- Environment ---
+// What the engine needs from its host. Without one it runs with the built-in connectors and the
+// system clock, and cannot run scripts or AI steps; the app passes browserEnvironment, Node hosts
+// build their own.
+export type ScriptRunner = (code: string, input: any, options: SandboxOptions) => Promise<ScriptOutcome>;
+
+export interface EngineEnvironment {
+  connectors: ConnectorRegistry;
+  clock: Clock;
+  runScript?: ScriptRunner; // Executes SCRIPT nodes
+  generateText?: TextGenerator; // Used by AI connectors
+  simulateLatency?: boolean; // Pause around each activity so a run can be followed on the canvas
+}
+
+export const DEFAULT_ENVIRONMENT: EngineEnvironment = {
+  connectors: defaultConnectors,
+  clock: systemClock
+};
+
+// Resolves after `ms`, or rejects with the abort reason if the signal fires first
+const wait = (ms: number, signal: AbortSignal | undefined, clock: Clock) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const onAbort = () => {
+    clock.clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  const timer = clock.setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Settles with the promise, or rejects as soon as the signal aborts (work that cannot be
+// interrupted, like an SDK call, keeps running but its result is discarded)
+const raceWithSignal = <T,>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  let onAbort = () => {};
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => {
+      if (signal.aborted) return reject(signal.reason);
+      onAbort = () => reject(signal.reason);
+      signal.addEventListener('abort', onAbort, { once: true });
+    })
+  ]).finally(() => signal.removeEventListener('abort', onAbort));
+};
+
+// Child controller that aborts with its parent, plus an optional deadline of its own
+const createLinkedController = (clock: Clock, parent?: AbortSignal, timeoutMs?: number | null, timeoutMessage = 'Timed out') => {
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort(parent!.reason);
+  if (parent?.aborted) controller.abort(parent.reason);
+  parent?.addEventListener('abort', onParentAbort, { once: true });
+  const timer = timeoutMs ? clock.setTimeout(() => controller.abort(new TimeoutError(timeoutMessage)), timeoutMs) : undefined;
+  const dispose = () => {
+    if (timer !== undefined) clock.clearTimeout(timer);
+    parent?.removeEventListener('abort', onParentAbort);
+  };
+  return { controller, dispose };
+};
+
 const MAX_EXECUTION_STEPS = 50; // Safety valve to prevent infinite loops crashing the browser
 
 // --- Retry Logic ---
-const MAX_RETRIES = 3;
-const BASE_DELAY = 1000;
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maximumAttempts: 3,
+    initialInterval: '1s',
+    backoffCoefficient: 2,
+    maximumInterval: '1m',
+    nonRetryableErrorTypes: ['ExpressionError']
+};
+
+// Node-level policy on top of the defaults. Scripts and expressions fail the same way every
+// time, so their errors are non-retryable unless the node says otherwise.
+export const getRetryPolicy = (node: WorkflowNode): RetryPolicy => ({
+    ...DEFAULT_RETRY_POLICY,
+    nonRetryableErrorTypes: node.type === NodeType.SCRIPT ? ['ScriptError', 'ExpressionError'] : ['ExpressionError'],
+    ...node.retry
+});
 
-// Wrapper to retry a function with exponential backoff
-async function withRetry<T>(fn: () => Promise<T>, operationName: string, logs: string[]): Promise<T> {
+interface AttemptOptions {
+    signal?: AbortSignal; // Run-level cancellation
+    timeoutMs?: number | null; // Start-to-close timeout per attempt
+    clock: Clock;
+}
+
+// Wrapper to retry a function with exponential backoff. Each attempt gets its own signal that
+// aborts on run cancellation or when the attempt exceeds its timeout.
+async function withRetry<T>(fn: (signal: AbortSignal) => Promise<T>, operationName: string, logs: string[], policy: RetryPolicy, options: AttemptOptions): Promise<T> {
+    const maxAttempts = Math.max(1, policy.maximumAttempts);
+    const initialInterval = parseDuration(policy.initialInterval) ?? 1000;
+    const maximumInterval = parseDuration(policy.maximumInterval) ?? Infinity;
     let attempt = 0;
-    while (attempt < MAX_RETRIES) {
+    while (attempt < maxAttempts) {
+        const { controller, dispose } = createLinkedController(
+            options.clock,
+            options.signal,
+            options.timeoutMs,
+            `${operationName} exceeded its ${describeDuration(options.timeoutMs ?? 0)} timeout`
+        );
         try {
-            return await fn();
+            return await raceWithSignal(fn(controller.signal), controller.signal);
         } catch (error: any) {
             attempt++;
-            const delay = BASE_DELAY * Math.pow(2, attempt - 1); // 1s, 2s, 4s...
-            logs.push(`⚠️ Error in ${operationName}: ${error.message}. Retrying (${attempt}/${MAX_RETRIES}) in ${delay}ms...`);
-            
-            if (attempt >= MAX_RETRIES) {
+            // A cancelled or timed-out run is never retried
+            if (options.signal?.aborted) throw options.signal.reason;
+            // Messages that end in a period would otherwise get a second one below
+            const message = String(error?.message ?? error).replace(/\.$/, '');
+            if (policy.nonRetryableErrorTypes?.includes(error?.name)) {
+                logs.push(`⚠️ Error in ${operationName}: ${message}. ${error.name} is non-retryable.`);
+                throw error;
+            }
+            if (attempt >= maxAttempts) {
+                logs.push(`⚠️ Error in ${operationName}: ${message}. Giving up after ${attempt} attempt(s).`);
                 throw error;
             }
-            await wait(delay);
+            const delay = Math.min(initialInterval * Math.pow(policy.backoffCoefficient, attempt - 1), maximumInterval); // 1s, 2s, 4s...
+            logs.push(`⚠️ Error in ${operationName}: ${message}. Retrying (${attempt}/${maxAttempts}) in ${Math.round(delay)}ms...`);
+            await wait(delay, options.signal, options.clock);
+        } finally {
+            dispose();
         }
     }
     throw new Error("Unreachable");
 }
 
 // --- Data Mapping Logic ---
-// Replaces {{variableName}} in configuration strings with actual values from input
-const resolveConfig = (config: any, context: any): any => {
+// Evaluates {{ expressions }} in configuration strings against the step input.
+// Errors name the field they came from, e.g. "config.subject: Unresolved reference 'orderId'".
+export const resolveConfig = (config: any, context: any, path = 'config'): any => {
   if (typeof config === 'string') {
-    // Regex to find {{ key }}
-    return config.replace(/\{\{([^}]+)\}\}/g, (_, key) => {
-      const cleanKey = key.trim();
-      const value = context[cleanKey];
-      // If found, return stringified value. If not, keep original placeholder (or empty string)
-      return value !== undefined ? String(value) : `{{${cleanKey}}}`;
-    });
+    if (!config.includes('{{')) return config;
+    try {
+      return renderTemplate(config, context);
+    } catch (e: any) {
+      throw new ExpressionError(`${path}: ${e.message}`);
+    }
   } else if (Array.isArray(config)) {
-    return config.map(item => resolveConfig(item, context));
+    return config.map((item, i) => resolveConfig(item, context, `${path}[${i}]`));
   } else if (typeof config === 'object' && config !== null) {
     const resolved: any = {};
     for (const key in config) {
-        resolved[key] = resolveConfig(config[key], context);
+        resolved[key] = resolveConfig(config[key], context, `${path}.${key}`);
     }
     return resolved;
   }
@@ -60,218 +169,397 @@ const resolveConfig = (config: any, context: any): any => {
 }
 
 
-// Simulates processing a single node
-export const processNode = async (node: WorkflowNode, input: any): Promise<{ output: any, logs: string[], duration: string }> => {
-  const startTime = Date.now();
+// --- Merge Logic ---
+const isPlainObject = (value: any) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const deepMerge = (target: any, source: any): any => {
+  const merged = { ...target };
+  for (const key in source) {
+    merged[key] = isPlainObject(merged[key]) && isPlainObject(source[key])
+      ? deepMerge(merged[key], source[key])
+      : source[key];
+  }
+  return merged;
+};
+
+interface BranchArrival {
+  sourceId: string;
+  context: any;
+}
+
+// Combines the contexts of the upstream branches that reached a MERGE node (in arrival order)
+export const mergeBranchContexts = (arrivals: BranchArrival[], strategy: MergeStrategy = 'combine', outputKey = 'merged'): any => {
+  const contexts = arrivals.map(a => a.context);
+  switch (strategy) {
+    case 'prefer-first':
+      return Object.assign({}, ...[...contexts].reverse());
+    case 'deep':
+      return contexts.reduce((acc, ctx) => deepMerge(acc, ctx), {});
+    case 'by-branch':
+      // Keep the flat view for existing {{variables}}, plus each branch keyed by its source node
+      return {
+        ...Object.assign({}, ...contexts),
+        [outputKey]: Object.fromEntries(arrivals.map(a => [a.sourceId, a.context]))
+      };
+    case 'append':
+      return { ...Object.assign({}, ...contexts), [outputKey]: contexts };
+    case 'combine':
+    default:
+      return Object.assign({}, ...contexts);
+  }
+};
+
+// Whether a node may start given how many incoming edges were taken and how many are unresolved
+const isJoinSatisfied = (node: WorkflowNode, takenCount: number, pendingCount: number): boolean => {
+  if (node.type === NodeType.MERGE) {
+    const mode: MergeMode = node.config?.mode || 'wait-all';
+    if (mode === 'wait-any' && takenCount > 0) return true;
+    if (mode === 'first-n' && takenCount >= (parseInt(node.config?.count) || 1)) return true;
+  }
+  return pendingCount === 0;
+};
+
+// Executes a single node outside the graph: control-flow nodes are evaluated or previewed, and
+// everything else is handed to the connector for its service.
+// `output` is the input merged with what the node produced; `produced` is only the latter.
+export const processNode = async (
+  node: WorkflowNode,
+  input: any,
+  signal?: AbortSignal,
+  env: EngineEnvironment = DEFAULT_ENVIRONMENT
+): Promise<{ output: any, produced: any, logs: string[], duration: string }> => {
+  const { clock } = env;
+  const startTime = clock.now();
   const logs: string[] = [];
-  let output = { ...input };
+  let output: any = {};
 
   // Resolve Configuration Variables
   // e.g. "Subject: Order {{orderId}}" -> "Subject: Order #123"
-  const finalConfig = resolveConfig(node.config, input);
+  // Condition rules resolve their own references so each rule can handle a missing variable.
+  // Switch cases are literal edge labels and are never templated.
+  const { conditions, ...templatedConfig } = node.config || {};
+  const { variable, cases, ...switchConfig } = node.config || {};
+  const finalConfig = resolveConfig(
+    node.type === NodeType.CONDITION ? templatedConfig : node.type === NodeType.SWITCH ? switchConfig : node.config,
+    input
+  );
 
   // Simulate realistic "Thinking" or "Network" delay (1000ms - 3000ms) - Slowed down for visual effect
   // For AI nodes, the API call takes real time, so we reduce artificial delay.
   // Script nodes are instantaneous
   const isAI = node.service.toLowerCase().includes('gemini') || node.service.toLowerCase().includes('ai') || node.type === NodeType.AI;
   const isScript = node.type === NodeType.SCRIPT;
-  const delay = isAI || isScript ? 500 : Math.floor(Math.random() * 1500) + 500;
+  const delay = !env.simulateLatency ? 0 : isAI || isScript ? 500 : Math.floor(Math.random() * 1500) + 500;
   
   logs.push(`Event: ActivityTaskScheduled (${node.service}.${node.type})`);
-  await wait(delay * 0.3); // Initial handshake
+  if (delay) await wait(delay * 0.3, signal, clock); // Initial handshake
   logs.push(`Event: ActivityTaskStarted`);
 
   // Define the core work function for retries
-  const doWork = async () => {
+  const doWork = async (attemptSignal: AbortSignal) => {
       // Simulate specific logic based on service/type
-      if (node.type === NodeType.SCRIPT) {
+      if (node.type === NodeType.FOREACH) {
+          // The body is executed per item by the workflow engine; standalone we only resolve the collection
+          const items = resolveLoopItems(node, input);
+          logs.push(`Resolved ${items.length} items to iterate over.`);
+          output = { ...output, itemCount: items.length };
+      } else if (node.type === NodeType.MERGE) {
+          // Branch contexts are combined by the scheduler before the node starts
+          logs.push(`Joining upstream branches (mode: ${node.config?.mode || 'wait-all'}, strategy: ${node.config?.strategy || 'combine'})...`);
+      } else if (node.type === NodeType.SUBWORKFLOW) {
+          // Called workflows are started by the workflow engine; standalone we only resolve the input mapping
+          logs.push(`Resolved the input for workflow '${node.config?.workflowId || ''}' (not started outside a run).`);
+          output = { ...output, childInput: finalConfig.inputs || {} };
+      } else if (node.type === NodeType.DELAY) {
+          // Runs wait (or suspend) on delays; standalone we only work out when the step would resume
+          const resumeAt = computeResumeTime(finalConfig, new Date(startTime));
+          logs.push(`Would resume at ${resumeAt.toISOString()} (${describeDuration(Math.max(0, resumeAt.getTime() - startTime))} from now); not waiting outside a run.`);
+          output = { ...output, waitedUntil: resumeAt.toISOString() };
+      } else if (node.type === NodeType.APPROVAL) {
+          // Runs suspend on approvals; a standalone test has nobody to ask, so it takes the approved path
+          logs.push(`Approval request: ${finalConfig.message || '(no message)'}`);
+          logs.push(`Not waiting outside a run; continuing as approved.`);
+          output = { ...output, approval: { decision: 'approved', simulated: true } };
+      } else if (node.type === NodeType.SWITCH) {
+          logs.push(`Evaluating switch on '${node.config?.variable || ''}'...`);
+          const { matched, trace } = evaluateSwitch(node.config?.variable || '', getSwitchCases(node), input);
+          logs.push(...trace.map(line => `Case: ${line}`));
+          const switchCase = matched ?? SWITCH_DEFAULT_LABEL;
+          logs.push(`Taking the '${switchCase}' path.`);
+          output = { ...output, switchCase };
+      } else if (node.type === NodeType.SCRIPT) {
           logs.push(`Executing custom script sandbox...`);
-          try {
-              const userCode = node.config.code || "return { status: 'noop' };";
-              // Create a safe-ish function with input available
-              // In a real env, this would be a V8 Isolate or WASM sandbox
-              const scriptFn = new Function('input', userCode);
-              
-              const scriptResult = scriptFn(input);
-              
-              if (typeof scriptResult === 'object') {
-                  output = { ...output, ...scriptResult };
-              } else {
-                  output = { ...output, result: scriptResult };
-              }
-              logs.push(`Script execution completed.`);
-          } catch (e: any) {
-              // Scripts usually shouldn't retry on logic errors, but for system stability simulation we might
-              throw new Error(`Script Error: ${e.message}`);
+          // TypeScript scripts run the JavaScript compiled when the node was saved
+          const isTypeScript = node.config.language === 'typescript';
+          const userCode = (isTypeScript ? node.config.compiledCode : node.config.code) || "return { status: 'noop' };";
+          if (isTypeScript && node.config.compiledCode === undefined && node.config.code) {
+              throw new ScriptError('TypeScript script has not been compiled yet. Open the node and save it.');
+          }
+          if (!env.runScript) throw new ScriptError('Scripts cannot run here: no script runner is configured.');
+          // Runs isolated from the host (in the app, a worker that is terminated on timeout or cancellation)
+          const outcome = await env.runScript(userCode, input, {
+              signal: attemptSignal,
+              timeoutMs: parseDuration(node.timeout) ?? DEFAULT_SCRIPT_TIMEOUT_MS
+          });
+          logs.push(...outcome.console.map(line => `console: ${line}`));
+          if (outcome.error !== undefined) {
+              throw new ScriptError(`Script Error: ${outcome.error}`);
           }
-      } else {
-
-        switch (node.service.toLowerCase()) {
-            case 'http':
-                logs.push(`Preparing ${finalConfig.method || 'GET'} request to ${finalConfig.url}...`);
-                try {
-                    // Try parsing body if it exists and isn't GET/DELETE
-                    let body = undefined;
-                    if (finalConfig.method !== 'GET' && finalConfig.method !== 'DELETE' && finalConfig.body) {
-                        try {
-                            body = typeof finalConfig.body === 'string' ? finalConfig.body : JSON.stringify(finalConfig.body);
-                        } catch (e) {
-                            logs.push(`⚠️ Warning: Body is not valid JSON, sending as string.`);
-                            body = finalConfig.body;
-                        }
-                    }
-
-                    // Try parsing headers
-                    let headers = {};
-                    if (finalConfig.headers) {
-                        try {
-                            headers = typeof finalConfig.headers === 'string' ? JSON.parse(finalConfig.headers) : finalConfig.headers;
-                        } catch (e) {
-                             logs.push(`⚠️ Warning: Headers are not valid JSON.`);
-                        }
-                    }
-
-                    // Client-side fetch limitation: CORS
-                    // In a real SaaS, this runs server-side (Node.js/Go) where CORS doesn't apply.
-                    // For this demo, we can only fetch CORS-enabled APIs.
-                    const response = await fetch(finalConfig.url, {
-                        method: finalConfig.method || 'GET',
-                        headers: {
-                            'Content-Type': 'application/json',
-                            ...headers
-                        },
-                        body
-                    });
-
-                    logs.push(`Response Status: ${response.status}`);
-                    
-                    let responseData;
-                    const contentType = response.headers.get("content-type");
-                    if (contentType && contentType.includes("application/json")) {
-                        responseData = await response.json();
-                    } else {
-                        responseData = await response.text();
-                    }
-
-                    if (!response.ok) {
-                        throw new Error(`HTTP ${response.status}: ${JSON.stringify(responseData)}`);
-                    }
-
-                    output = { ...output, data: responseData, status: response.status };
-                } catch (e: any) {
-                    // If it's a CORS error, simulate success for demo purposes if URL is dummy
-                    if (e.message.includes('Failed to fetch') || e.message.includes('NetworkError')) {
-                         logs.push(`⚠️ Network/CORS Error detected (Client-side limitation).`);
-                         if (finalConfig.url.includes('api.example.com') || finalConfig.url.includes('localhost')) {
-                             logs.push(`Simulating success for test/dummy URL.`);
-                             output = { ...output, data: { success: true, simulated: true }, status: 200 };
-                         } else {
-                             throw e;
-                         }
-                    } else {
-                        throw e;
-                    }
-                }
-            break;
-
-            case 'webhook':
-                 logs.push(`Waiting for webhook event...`);
-                 // In a real execution, this node would likely be a Trigger that already fired
-                 // If it's used mid-flow, it might be a "Wait for Callback"
-                 logs.push(`Webhook event received (Simulated).`);
-                 output = { ...output, webhookBody: { event: 'ping' } };
-            break;
-
-            case 'gmail':
-            if (node.type === NodeType.ACTION) {
-                logs.push(`Connecting to SMTP server...`, `Authenticating...`);
-                logs.push(`Sending email to: ${finalConfig.to || 'recipient'}`);
-                logs.push(`Subject: ${finalConfig.subject || '(No Subject)'}`);
-                // In a real app, this is where we'd use the resolved body
-            }
-            break;
-            case 'slack':
-            logs.push(`Resolving channel ID...`); 
-            logs.push(`Posting message to ${finalConfig.channel || 'channel'}: "${finalConfig.message?.substring(0, 20)}..."`);
-            break;
-            case 'shopify':
-            logs.push(`Fetching order data...`, `Rate limit check: OK`);
-            // Mock intermittent failure for demo purposes
-            if (Math.random() > 0.95) throw new Error("Shopify API Rate Limit Exceeded");
-            output = { ...output, orderId: '#SH-' + Math.floor(Math.random() * 10000), totalValue: Math.floor(Math.random() * 500) }; 
-            logs.push(`Order Value: $${output.totalValue}`);
-            break;
-            case 'gemini':
-            case 'ai':
-            case 'gpt':
-            logs.push(`Building prompt context...`);
-            
-            const promptTemplate = finalConfig.prompt || "Summarize the input data.";
-            const model = finalConfig.model || 'gemini-2.5-flash';
-            
-            // Context is already injected via resolveConfig if user used {{variables}}
-            // We append raw JSON as a fallback context if the prompt is short
-            let finalPrompt = promptTemplate;
-            if (input && Object.keys(input).length > 0 && !promptTemplate.includes('{{')) {
-                finalPrompt += `\n\n--- Input Data Context ---\n${JSON.stringify(input, null, 2)}`;
-            }
 
-            logs.push(`Sending request to ${model}...`);
-            const aiResult = await performAIAction(finalPrompt, model);
-            logs.push(`LLM Response received (${aiResult.length} chars).`);
-            output = { ...output, aiResult };
-            break;
-            case 'system':
-            if (node.label.toLowerCase().includes('wait')) {
-                logs.push(`Timer started...`, `Timer fired.`);
-            }
-            // Logic for condition evaluation
-            if (node.type === NodeType.CONDITION) {
-                logs.push(`Evaluating condition logic...`);
-                // Use resolved config (values are already interpolated)
-                let result = true;
-                
-                // If the user mapped a variable into 'variable' field using {{}}, resolvedConfig handled it.
-                // But usually 'variable' config is the key name, e.g. "totalValue"
-                // So we check raw config for the key, then look up in input.
-                
-                // Hybrid approach: If config.variable exists in input, use it.
-                const varName = node.config.variable;
-                const val = input[varName] !== undefined ? input[varName] : parseFloat(varName) || 0;
-                
-                const threshold = parseFloat(finalConfig.threshold) || 0;
-                const operator = finalConfig.operator || '>';
-                
-                if (operator === '>') result = val > threshold;
-                else if (operator === '<') result = val < threshold;
-                else if (operator === '==') result = val == threshold;
-                else if (operator === '!=') result = val != threshold;
-                else if (operator === 'contains') result = String(val).includes(String(threshold));
-                
-                logs.push(`Check: ${varName} (${val}) ${operator} ${threshold} = ${result}`);
-                
-                output = { ...output, conditionResult: result };
-            }
-            break;
-            default:
-            logs.push(`Executing generic handler for ${node.service}...`);
-        }
+          output = { ...output, ...toScriptOutput(outcome.result) };
+          logs.push(`Script execution completed.`);
+      } else if (node.type === NodeType.CONDITION) {
+          logs.push(`Evaluating condition logic...`);
+          const { result, trace } = evaluateConditions(getConditionGroup(node.config), input, node.config?.onMissing);
+          logs.push(...trace.map(line => `Check: ${line}`));
+          output = { ...output, conditionResult: result };
+      } else {
+          const resolved = env.connectors.resolve(node);
+          if (!resolved) {
+              logs.push(`Executing generic handler for ${node.service}...`);
+          } else if (resolved.handler) {
+              const produced = await resolved.handler(withDefaults(resolved.operation.config, finalConfig), {
+                  node, input, signal: attemptSignal, logs, clock, generateText: env.generateText
+              });
+              output = { ...output, ...produced };
+          } else {
+              logs.push(`${resolved.connector.definition.name}: ${resolved.operation.name}.`);
+          }
       }
   };
 
+
   // Execute work with retries
   try {
-      await withRetry(doWork, node.label, logs);
+      // The script sandbox enforces the timeout itself, as a non-retryable ScriptError
+      await withRetry(doWork, node.label, logs, getRetryPolicy(node), {
+          signal,
+          timeoutMs: isScript ? null : parseDuration(node.timeout),
+          clock
+      });
   } catch (e: any) {
       logs.push(`❌ Activity Failed after retries: ${e.message}`);
+      // Keep the activity history so the failed step still shows what happened
+      if (e && typeof e === 'object') e.logs = logs;
       throw e;
   }
 
-  await wait(delay * 0.7); // Processing time
+  if (delay) await wait(delay * 0.7, signal, clock); // Processing time
   logs.push(`Event: ActivityTaskCompleted`);
 
-  const duration = ((Date.now() - startTime) / 1000).toFixed(2) + 's';
-  return { output, logs, duration };
+  const duration = ((clock.now() - startTime) / 1000).toFixed(2) + 's';
+  // A trigger's payload is what it produces for the rest of the workflow
+  const produced = node.type === NodeType.TRIGGER ? { ...input, ...output } : output;
+  return { output: { ...input, ...output }, produced, logs, duration };
+};
+
+// Decides which outgoing edges fire after a node completes.
+// A node whose error was routed only follows its 'error' edges. Otherwise CONDITION nodes follow
+// the edge labeled with their result, SWITCH nodes the edge labeled with the matched case (unlabeled
+// edges always fire for both), APPROVAL nodes the edge labeled with the decision (unlabeled edges
+// only on approval), and every other node fans out to all of its outgoing edges except the error route.
+const selectOutgoingEdges = (node: WorkflowNode, output: any, outgoing: WorkflowEdge[], errorRouted = false): WorkflowEdge[] => {
+  const isErrorEdge = (e: WorkflowEdge) => e.label?.toLowerCase() === ERROR_EDGE_LABEL;
+  if (errorRouted) return outgoing.filter(isErrorEdge);
+  if (node.type === NodeType.CONDITION) {
+    const targetLabel = output?.conditionResult === true ? 'true' : 'false';
+    return outgoing.filter(e => !e.label || e.label.toLowerCase() === targetLabel);
+  }
+  if (node.type === NodeType.SWITCH) {
+    const targetLabel = String(output?.switchCase ?? SWITCH_DEFAULT_LABEL).toLowerCase();
+    return outgoing.filter(e => !e.label || (!isErrorEdge(e) && e.label.trim().toLowerCase() === targetLabel));
+  }
+  if (node.type === NodeType.APPROVAL) {
+    const decision = String(output?.approval?.decision || 'approved');
+    return outgoing.filter(e => e.label ? !isErrorEdge(e) && e.label.trim().toLowerCase() === decision : decision === 'approved');
+  }
+  return outgoing.filter(e => !isErrorEdge(e));
+};
+
+// A join continues on the branch its inputs fanned out from (1.2 -> 1)
+const parentBranch = (branch: string) => branch.includes('.') ? branch.slice(0, branch.lastIndexOf('.')) : branch;
+
+const formatDuration = (startTime: Date, clock: Clock) => ((clock.now() - startTime.getTime()) / 1000).toFixed(1) + 's';
+
+// --- Loop Logic ---
+const MAX_LOOP_ITERATIONS = 1000;
+
+interface GraphScope {
+  nodes: WorkflowNode[];
+  edges: WorkflowEdge[];
+}
+
+// Restricts a graph to the nodes that run at this level. Loop bodies are carved out
+// and executed by their FOREACH node once per item instead.
+const buildScope = (nodes: WorkflowNode[], edges: WorkflowEdge[]): GraphScope => {
+  const bodyIds = new Set<string>();
+  nodes
+    .filter(n => n.type === NodeType.FOREACH)
+    .forEach(n => getLoopBodyIds(edges, n.id).forEach(id => bodyIds.add(id)));
+  const scopeNodes = nodes.filter(n => !bodyIds.has(n.id));
+  const scopeIds = new Set(scopeNodes.map(n => n.id));
+  return { nodes: scopeNodes, edges: edges.filter(e => scopeIds.has(e.source) && scopeIds.has(e.target)) };
+};
+
+const resolveLoopItems = (node: WorkflowNode, context: any): any[] => {
+  const ref = String(node.config?.items || 'items').replace(/^\{\{\s*|\s*\}\}$/g, '').trim();
+  const value = evaluateExpression(ref, context);
+  if (!Array.isArray(value)) {
+    throw new Error(`Loop source '${ref}' is not an array (got ${value === undefined ? 'undefined' : typeof value}).`);
+  }
+  return value;
+};
+
+// The keys a step changed in its context; a fallback for runs recorded before steps kept `produced`
+const diffContext = (before: any, after: any) => {
+  const produced: any = {};
+  for (const key in after) {
+    if (key !== STEPS_NAMESPACE && after[key] !== before[key]) produced[key] = after[key];
+  }
+  return produced;
+};
+
+// Context passed downstream: the flat view (later outputs overwrite earlier keys) plus each
+// node's own output under steps.<slug>, so {{steps.fetch_orders.data}} stays unambiguous
+const withStepOutput = (input: any, slug: string, produced: any) => ({
+  ...input,
+  ...produced,
+  [STEPS_NAMESPACE]: { ...input?.[STEPS_NAMESPACE], [slug]: produced }
+});
+
+// Branches share the steps that ran before they forked, so their namespaces combine without conflicts
+const joinStepOutputs = (contexts: any[]) => Object.assign({}, ...contexts.map(c => c?.[STEPS_NAMESPACE]));
+
+const chunk = <T,>(items: T[], size: number): T[][] => {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) batches.push(items.slice(i, i + size));
+  return batches;
+};
+
+interface GraphRunOptions {
+  scope: GraphScope;
+  input: any;
+  branchPrefix?: string;
+  parentStepId?: string; // Set when running a loop body
+  iteration?: number;
+}
+
+interface GraphRunResult {
+  failed: boolean;
+  limitReached: boolean;
+  output: any; // Combined context of the terminal nodes
+  produced: any; // What the scope's steps added to the context, in the order they completed
+}
+
+export interface ResumeOptions {
+  run: RunLog; // The earlier run to continue from
+  fromNodeId?: string; // This node and everything downstream of it is executed again
+  inPlace?: boolean; // Continue the same run (crash recovery) instead of starting a linked one
+}
+
+export interface ExecutionOptions {
+  timeout?: string; // Overall workflow timeout, e.g. '10m'
+  resume?: ResumeOptions;
+  loadWorkflow?: (workflowId: string) => Workflow | undefined; // Resolves the targets of SUBWORKFLOW nodes
+  parentRun?: RunParentLink; // Set for runs started by a SUBWORKFLOW step
+  signal?: AbortSignal; // Aborts this run together with its parent
+  delivery?: WebhookDelivery; // The webhook request that started the run
+  host?: RunHost; // The server executing the run, which continues it after a wait
+  env?: EngineEnvironment; // Connectors, clock and script runner; DEFAULT_ENVIRONMENT when omitted
+}
+
+// Sub-workflows may call further sub-workflows, but not deeper than this
+const MAX_CALL_DEPTH = 5;
+
+// Delays up to this long are waited out by the executing tab; longer ones suspend the run, which is
+// resumed once the delay is over. Loop bodies and sub-workflow runs cannot suspend and always wait.
+export const IN_PROCESS_DELAY_MS = 60000;
+
+// Settled top-level steps of the earlier run that a resumed run can reuse: successes and failures
+// their error policy handled, except the chosen node and what lies downstream of it
+const getReusableSteps = (edges: WorkflowEdge[], { run, fromNodeId }: ResumeOptions): Map<string, RunStep> => {
+  const rerun = fromNodeId ? collectReachable(edges, [fromNodeId]) : new Set<string>();
+  return new Map(run.steps
+    .filter(s => !s.parentStepId && (s.status === 'success' || (s.status === 'failed' && s.handledBy)) && !rerun.has(s.nodeId))
+    .map(s => [s.nodeId, s]));
+};
+
+// The reused steps plus the loop iterations recorded under them. Steps that were still in
+// flight are dropped and run again.
+const keepReusedSteps = (steps: RunStep[], reused: Map<string, RunStep>): RunStep[] => {
+  const keptIds = new Set([...reused.values()].map(s => s.id));
+  return steps.filter(s => {
+    if (keptIds.has(s.id)) return true;
+    if (s.parentStepId && keptIds.has(s.parentStepId)) {
+      keptIds.add(s.id); // Parents are recorded before their children
+      return true;
+    }
+    return false;
+  });
+};
+
+// Abort controllers of the runs executing in this tab (or Node process), so they can be cancelled
+const activeRuns = new Map<string, AbortController>();
+
+export const isRunActive = (runId: string) => activeRuns.has(runId);
+
+// Stops a running workflow: in-flight steps are aborted and recorded as cancelled
+export const cancelRun = (runId: string): boolean => {
+  const controller = activeRuns.get(runId);
+  if (!controller) return false;
+  controller.abort(new CancelledError('Run cancelled by user.'));
+  return true;
+};
+
+// --- Signals ---
+// A waiting run is not executing anywhere: it is resumed in place (resume: { run, inPlace: true })
+// once one of its waits is over, and each approval step then completes from its record.
+
+// Records a decision on a waiting APPROVAL step. The run picks it up when it is next resumed.
+export const signalRun = (run: RunLog, stepId: string, signal: Omit<RunSignal, 'receivedAt'>): RunLog => {
+  const step = run.steps.find(s => s.id === stepId);
+  if (run.status !== 'waiting' || step?.status !== 'waiting') {
+    throw new WorkflowError('This step is not waiting for a decision.');
+  }
+  if (step.signal) throw new WorkflowError('A decision was already recorded for this step.');
+  const recorded: RunSignal = { ...signal, comment: signal.comment?.trim() || undefined, receivedAt: new Date().toISOString() };
+  return {
+    ...run,
+    steps: run.steps.map(s => s.id === stepId ? { ...s, signal: recorded, logs: [...s.logs, `Signal received: ${recorded.decision}`] } : s)
+  };
+};
+
+// Whether a waiting run can continue: a decision arrived, an approval expired or a delay ended
+export const isWaitOver = (run: RunLog, now = Date.now()): boolean =>
+  run.status === 'waiting' && !activeRuns.has(run.id) && run.steps.some(s => s.status === 'waiting' && (
+    !!s.signal ||
+    (!!s.waitingFor?.expiresAt && Date.parse(s.waitingFor.expiresAt) <= now) ||
+    (!!s.waitingFor?.resumeAt && Date.parse(s.waitingFor.resumeAt) <= now)
+  ));
+
+// Ends a waiting run without resuming it
+export const cancelWaitingRun = (run: RunLog, reason: string): RunLog => ({
+  ...run,
+  status: 'cancelled',
+  error: reason,
+  steps: run.steps.map(s => s.status === 'waiting'
+    ? { ...s, status: 'cancelled', endTime: new Date().toISOString(), logs: [...s.logs, `Aborted: ${reason}`] }
+    : s)
+});
+
+// --- Checkpointing ---
+// Every step change is persisted through onStepUpdate, and a heartbeat refreshes checkpointAt
+// while steps are in flight. A 'running' run whose checkpoint goes stale lost the tab executing it.
+export const CHECKPOINT_INTERVAL_MS = 15000;
+// Browsers run the timers of background tabs as rarely as once a minute, so the checkpoint of a live
+// run can be minutes old. Another tab resuming it would repeat its side effects, so wait well past that.
+const ORPHAN_AFTER_MS = 5 * 60 * 1000;
+
+export const isRunOrphaned = (run: RunLog, now = Date.now()): boolean => {
+  if (run.status !== 'running' || activeRuns.has(run.id)) return false;
+  const lastCheckpoint = Date.parse(run.checkpointAt || run.startedAt);
+  // Legacy runs without a parseable timestamp can never finish, so treat them as orphaned
+  return isNaN(lastCheckpoint) || now - lastCheckpoint > ORPHAN_AFTER_MS;
 };
 
 export const executeWorkflow = async (
@@ -280,159 +568,560 @@ export const executeWorkflow = async (
   nodes: WorkflowNode[], 
   edges: WorkflowEdge[],
   onStepUpdate: (runLog: RunLog) => void,
-  initialInput: any = { trigger: 'manual_execution' }
+  initialInput: any = { trigger: 'manual_execution' },
+  options: ExecutionOptions = {}
 ): Promise<RunLog> => {
-  const runId = `run-${Date.now()}`;
-  const startTime = new Date();
+  const env = options.env || DEFAULT_ENVIRONMENT;
+  const { clock } = env;
+  const isoNow = () => new Date(clock.now()).toISOString();
+  const resume = options.resume;
+  const inPlace = !!resume?.inPlace;
+  // Random suffix: a sub-workflow run can start in the same millisecond as its parent
+  const runId = inPlace ? resume!.run.id : `run-${clock.now()}-${Math.random().toString(36).slice(2, 6)}`;
+  const startTime = inPlace ? new Date(resume!.run.startedAt) : new Date(clock.now());
 
-  let currentRunLog: RunLog = {
+  const timeoutMs = parseDuration(options.timeout);
+  const { controller, dispose } = createLinkedController(clock, options.signal, timeoutMs, `Workflow exceeded its ${options.timeout} timeout.`);
+  const signal = controller.signal;
+  activeRuns.set(runId, controller);
+
+  const reusableSteps = resume ? getReusableSteps(edges, resume) : new Map<string, RunStep>();
+  // Approval and delay steps the run was waiting on. Only a run continued in place picks them up again.
+  const waitingSteps = new Map((inPlace ? resume!.run.steps : [])
+    .filter(s => s.status === 'waiting' && !s.parentStepId)
+    .map(s => [s.nodeId, s]));
+  let suspended = false; // Set when a branch stopped at an undecided approval or a long delay
+
+  let currentRunLog: RunLog = inPlace ? {
+    ...resume!.run,
+    status: 'running',
+    steps: keepReusedSteps(resume!.run.steps, reusableSteps),
+    checkpointAt: isoNow()
+  } : {
     id: runId,
     workflowId,
     workflowName,
     status: 'running',
     startedAt: startTime.toISOString(),
     duration: '0s',
-    steps: []
+    steps: [],
+    input: initialInput,
+    checkpointAt: startTime.toISOString(),
+    parentRun: options.parentRun,
+    delivery: options.delivery,
+    host: options.host,
+    resumedFrom: resume?.fromNodeId ? {
+      runId: resume.run.id,
+      nodeId: resume.fromNodeId,
+      nodeLabel: nodes.find(n => n.id === resume.fromNodeId)?.label || resume.fromNodeId
+    } : undefined
   };
 
   // Initial update
   onStepUpdate(currentRunLog);
 
-  // Topological sort or simple sequence following edges
-  // For this demo, we assume a linear or tree structure starting from the Trigger
-  // We find the node with no incoming edges (Trigger)
-  const incomingEdges = new Set(edges.map(e => e.target));
-  let currentNode = nodes.find(n => !incomingEdges.has(n.id));
-
-  // Fallback if circular or complex: just take the first node
-  if (!currentNode) currentNode = nodes[0];
-
-  let stepInput = initialInput;
-  let stepsExecuted = 0;
-  
-  while (currentNode) {
-    if (stepsExecuted >= MAX_EXECUTION_STEPS) {
-         const errorMsg = `Safety Limit Reached: Workflow exceeded ${MAX_EXECUTION_STEPS} steps. Possible infinite loop.`;
-         const limitStep: RunStep = {
-             id: `step-limit`,
-             nodeId: 'system',
-             nodeLabel: 'System Safety',
-             status: 'failed',
-             startTime: new Date().toISOString(),
-             endTime: new Date().toISOString(),
-             input: {},
-             output: {},
-             logs: [errorMsg]
-         };
-         currentRunLog = {
-             ...currentRunLog,
-             status: 'failed',
-             steps: [...currentRunLog.steps, limitStep]
-         };
-         onStepUpdate(currentRunLog);
-         return currentRunLog;
-    }
-    stepsExecuted++;
-
-    // 1. Mark step as pending
-    const stepId = `step-${Date.now()}`;
-    const pendingStep: RunStep = {
-      id: stepId,
-      nodeId: currentNode.id,
-      nodeLabel: currentNode.label,
-      status: 'pending',
-      startTime: new Date().toISOString(),
-      input: stepInput,
-      output: {},
-      logs: []
-    };
+  const checkpoint = () => {
+    currentRunLog = { ...currentRunLog, checkpointAt: isoNow() };
+    onStepUpdate(currentRunLog);
+  };
+  let heartbeat = clock.setTimeout(function beat() {
+    checkpoint();
+    heartbeat = clock.setTimeout(beat, CHECKPOINT_INTERVAL_MS);
+  }, CHECKPOINT_INTERVAL_MS);
 
+  // Steps from concurrent branches complete in any order, so updates are applied by step id
+  const upsertStep = (step: RunStep) => {
+    const exists = currentRunLog.steps.some(s => s.id === step.id);
     currentRunLog = {
       ...currentRunLog,
-      steps: [...currentRunLog.steps, pendingStep]
+      steps: exists ? currentRunLog.steps.map(s => s.id === step.id ? step : s) : [...currentRunLog.steps, step],
+      checkpointAt: isoNow()
     };
     onStepUpdate(currentRunLog);
+  };
 
-    let stepOutput = {};
+  const stepSlugs = getStepSlugs(nodes);
+  let stepSequence = 0;
+  let stepsExecuted = 0; // Top-level steps only; loop bodies are bounded by MAX_LOOP_ITERATIONS
 
-    // 2. Execute Step
-    try {
-      const { output, logs, duration } = await processNode(currentNode, stepInput);
-      stepOutput = output;
-      
-      // Update step to success
-      const completedStep: RunStep = {
-        ...pendingStep,
-        status: 'success',
-        endTime: new Date().toISOString(),
-        duration,
-        output,
-        logs
-      };
+  // Approval steps suspend their branch until a decision is recorded on the step (see signalRun)
+  // or the expiry passes. The run is then resumed in place and the step completes from its record.
+  const getApprovalWait = (node: WorkflowNode, input: any, step: RunStep): RunWait => {
+    const waited = waitingSteps.get(node.id)?.waitingFor;
+    if (waited) return waited;
+    const expiresAfterMs = parseDuration(node.config?.expiresAfter);
+    return {
+      kind: 'approval',
+      since: step.startTime,
+      expiresAt: expiresAfterMs === null ? undefined : new Date(Date.parse(step.startTime) + expiresAfterMs).toISOString(),
+      message: node.config?.message ? String(resolveConfig({ message: node.config.message }, input, 'config').message) : undefined
+    };
+  };
 
-      currentRunLog = {
-        ...currentRunLog,
-        steps: currentRunLog.steps.map(s => s.id === stepId ? completedStep : s)
-      };
-      
-      stepInput = { ...stepInput, ...output }; // Pass data forward
-      onStepUpdate(currentRunLog);
-
-    } catch (error) {
-       // Fail run
-       const failedStep: RunStep = {
-        ...pendingStep,
-        status: 'failed',
-        endTime: new Date().toISOString(),
-        logs: ['Error: Execution failed', `Details: ${error}`]
-      };
-      
-      currentRunLog = {
-        ...currentRunLog,
-        status: 'failed',
-        duration: ((Date.now() - startTime.getTime()) / 1000).toFixed(1) + 's',
-        steps: currentRunLog.steps.map(s => s.id === stepId ? failedStep : s)
-      };
-      onStepUpdate(currentRunLog);
-      return currentRunLog;
+  const getDelayWait = (node: WorkflowNode, input: any, step: RunStep): RunWait => {
+    const waited = waitingSteps.get(node.id)?.waitingFor;
+    if (waited) return waited;
+    const config = resolveConfig(node.config || {}, input, 'config');
+    return { kind: 'delay', since: step.startTime, resumeAt: computeResumeTime(config, new Date(step.startTime)).toISOString() };
+  };
+
+  const completeDelay = (input: any, step: RunStep) => {
+    const { since, resumeAt } = step.waitingFor!;
+    const logs = [...step.logs, `Delay over, resumed at ${isoNow()}.`];
+    const produced = { waitedUntil: resumeAt };
+    const duration = ((clock.now() - Date.parse(since)) / 1000).toFixed(2) + 's';
+    return { output: { ...input, ...produced }, produced, logs, duration };
+  };
+
+  const completeApproval = (node: WorkflowNode, input: any, step: RunStep) => {
+    const { waitingFor, signal: decision } = step;
+    const logs = [...step.logs];
+    let approval;
+    if (decision) {
+      const verdict = decision.decision === 'approved' ? 'Approved' : 'Rejected';
+      logs.push(`${verdict}${decision.actor ? ` by ${decision.actor}` : ''}${decision.comment ? `: ${decision.comment}` : '.'}`);
+      approval = { decision: decision.decision, comment: decision.comment, actor: decision.actor, decidedAt: decision.receivedAt };
+    } else {
+      logs.push(`No decision before ${waitingFor?.expiresAt}.`);
+      const hasExpiredPath = edges.some(e => e.source === node.id && e.label?.trim().toLowerCase() === APPROVAL_EXPIRED_LABEL);
+      if (!hasExpiredPath) {
+        throw Object.assign(new TimeoutError(`Approval expired without a decision.`), { logs });
+      }
+      approval = { decision: APPROVAL_EXPIRED_LABEL, decidedAt: isoNow() };
     }
+    logs.push(`Taking the '${approval.decision}' path.`);
+    const produced = { approval };
+    const duration = ((clock.now() - Date.parse(waitingFor?.since || step.startTime)) / 1000).toFixed(2) + 's';
+    return { output: { ...input, ...produced }, produced, logs, duration };
+  };
 
-    // 3. Find next node (Branching Logic)
-    if (currentNode.type === NodeType.CONDITION) {
-        // Look for edges based on result
-        const result = (stepOutput as any).conditionResult;
-        const targetLabel = result === true ? 'true' : 'false';
-        
-        // Try to find edge labeled explicitly, or fallback to any edge if not labeled
-        let nextEdge = edges.find(e => e.source === currentNode!.id && e.label?.toLowerCase() === targetLabel);
-        
-        // Fallback: If no explicit 'true'/'false' edge, just take the first one (maybe single path)
-        if (!nextEdge) {
-             nextEdge = edges.find(e => e.source === currentNode!.id);
+  // Runs the FOREACH body once per item (or batch) with bounded concurrency
+  const runLoop = async (node: WorkflowNode, input: any, loopStep: RunStep, branch: string) => {
+    const startedAt = clock.now();
+    const logs: string[] = [];
+    const items = resolveLoopItems(node, input);
+    const batchSize = parseInt(node.config?.batchSize) || 0;
+    const units: any[] = batchSize > 0 ? chunk(items, batchSize) : items;
+    if (units.length > MAX_LOOP_ITERATIONS) {
+      throw new Error(`Loop exceeds ${MAX_LOOP_ITERATIONS} iterations (${units.length}).`);
+    }
+
+    const concurrency = Math.max(1, parseInt(node.config?.concurrency) || 1);
+    const itemVariable = node.config?.itemVariable || 'item';
+    const bodyIds = getLoopBodyIds(edges, node.id);
+    const body = buildScope(nodes.filter(n => bodyIds.has(n.id)), edges);
+
+    logs.push(`Iterating over ${items.length} items${batchSize > 0 ? ` in ${units.length} batches of ${batchSize}` : ''} (concurrency: ${concurrency})`);
+
+    const results: any[] = new Array(units.length);
+    let nextIndex = 0;
+    let failure: string | null = null;
+
+    const worker = async () => {
+      while (failure === null && !signal.aborted && nextIndex < units.length) {
+        const index = nextIndex++;
+        const iterationInput = { ...input, [itemVariable]: units[index], index };
+        const result = await runGraph({ scope: body, input: iterationInput, branchPrefix: branch, parentStepId: loopStep.id, iteration: index });
+        if (result.failed) {
+          failure = `Iteration ${index} failed.`;
+          return;
         }
+        results[index] = result.produced;
+        logs.push(`Iteration ${index} completed.`);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, units.length) }, worker));
+    if (signal.aborted) throw signal.reason;
 
-        if (nextEdge) {
-            currentNode = nodes.find(n => n.id === nextEdge.target);
-        } else {
-            currentNode = undefined;
+    if (failure) {
+      logs.push(`❌ ${failure}`);
+      throw Object.assign(new Error(failure), { logs });
+    }
+
+    const duration = ((clock.now() - startedAt) / 1000).toFixed(2) + 's';
+    const produced = { [node.config?.resultKey || 'results']: results };
+    return { output: produced, produced, logs, duration };
+  };
+
+  // Starts the target workflow as a run of its own and waits for it to finish. The child run is
+  // persisted through onStepUpdate like this one, and linked both ways (childRunId / parentRun).
+  const runSubWorkflow = async (node: WorkflowNode, input: any, step: RunStep) => {
+    const startedAt = clock.now();
+    const logs: string[] = [];
+    const targetId = node.config?.workflowId;
+    const target = targetId ? options.loadWorkflow?.(targetId) : undefined;
+    if (!target) {
+      throw new WorkflowError(targetId ? `Workflow '${targetId}' was not found.` : 'No workflow selected to call.');
+    }
+
+    const callChain = [...(options.parentRun?.callChain || []), workflowId];
+    if (callChain.includes(target.id)) {
+      const names = [...callChain, target.id].map(id => id === target.id ? target.name : options.loadWorkflow?.(id)?.name || id);
+      throw new WorkflowError(`Recursive sub-workflow call: ${names.join(' → ')}.`);
+    }
+    if (callChain.length >= MAX_CALL_DEPTH) {
+      throw new WorkflowError(`Sub-workflows are nested more than ${MAX_CALL_DEPTH} levels deep.`);
+    }
+
+    // Mapped inputs are templates over this step's input; without a mapping the whole context is passed
+    const mapping = node.config?.inputs;
+    const { [STEPS_NAMESPACE]: _steps, ...context } = input || {};
+    const childInput = mapping && Object.keys(mapping).length > 0 ? resolveConfig(mapping, input, 'config.inputs') : context;
+    logs.push(`Calling '${target.name}' with ${Object.keys(childInput).length} input field(s)...`);
+
+    const child = await executeWorkflow(target.id, target.name, target.nodes, target.edges, (childRun) => {
+      if (!step.childRunId) {
+        step.childRunId = childRun.id;
+        upsertStep({ ...step });
+      }
+      onStepUpdate(childRun);
+    }, childInput, {
+      timeout: node.timeout || target.settings?.timeout,
+      loadWorkflow: options.loadWorkflow,
+      parentRun: { runId, stepId: step.id, nodeLabel: node.label, workflowName, callChain },
+      signal,
+      env
+    });
+    if (signal.aborted) throw signal.reason;
+
+    if (child.status === 'waiting') {
+      // Nothing would resume this step once the child is approved, so the child is not left waiting
+      onStepUpdate(cancelWaitingRun(child, 'Sub-workflow runs cannot wait for approval.'));
+      throw Object.assign(new WorkflowError(`Sub-workflow '${target.name}' stopped at an approval. Approvals only work in top-level runs.`), { logs });
+    }
+    logs.push(`Child run ${child.id} finished with status '${child.status}' after ${child.duration}.`);
+    if (child.status !== 'success') {
+      throw Object.assign(new WorkflowError(`Sub-workflow '${target.name}' ${child.status}${child.error ? `: ${child.error}` : ''}`), { logs });
+    }
+
+    // The child's own step namespace stays in the child run
+    const { [STEPS_NAMESPACE]: _childSteps, ...childContext } = child.output || {};
+    const outputKey = node.config?.outputKey;
+    const produced = outputKey ? { [outputKey]: childContext, childRunId: child.id } : { ...childContext, childRunId: child.id };
+    const duration = ((clock.now() - startedAt) / 1000).toFixed(2) + 's';
+    return { output: { ...input, ...produced }, produced, logs, duration };
+  };
+
+  // --- DAG Scheduler ---
+  // Every edge resolves to 'taken' (carrying the source's context) or 'skipped'.
+  // A node becomes ready once all of its incoming edges are resolved: it runs if at least one
+  // of them was taken, otherwise it is skipped and the skip propagates downstream.
+  const runGraph = async ({ scope, input, branchPrefix, parentStepId, iteration }: GraphRunOptions): Promise<GraphRunResult> => {
+    const { nodes: scopeNodes, edges: scopeEdges } = scope;
+    const edgeState = new Map<string, 'taken' | 'skipped'>();
+    const edgeContext = new Map<string, any>();
+    const edgeBranch = new Map<string, string>();
+    const edgeArrival = new Map<string, number>();
+    const nodeState = new Map<string, 'running' | 'done' | 'skipped'>();
+    const inFlight = new Map<string, Promise<void>>();
+    const terminalContexts: any[] = [];
+    const producedInScope: any[] = [];
+
+    const incomingOf = (nodeId: string) => scopeEdges.filter(e => e.target === nodeId);
+    const outgoingOf = (nodeId: string) => scopeEdges.filter(e => e.source === nodeId);
+    const rootNodes = scopeNodes.filter(n => incomingOf(n.id).length === 0);
+    const rootBranch = (index: number) => branchPrefix
+      ? (rootNodes.length > 1 ? `${branchPrefix}.${index + 1}` : branchPrefix)
+      : String(index + 1);
+
+    let failed = false;
+
+    const resolveOutgoing = (node: WorkflowNode, branch: string, stepInput: any, produced: any, errorRouted = false) => {
+      const output = withStepOutput(stepInput, stepSlugs.get(node.id)!, produced);
+      producedInScope.push(produced);
+      const outgoing = outgoingOf(node.id);
+      const taken = selectOutgoingEdges(node, output, outgoing, errorRouted);
+      if (taken.length === 0) terminalContexts.push(output);
+      outgoing.forEach(edge => {
+        const takenIndex = taken.indexOf(edge);
+        if (takenIndex === -1) {
+          edgeState.set(edge.id, 'skipped');
+          return;
         }
+        edgeState.set(edge.id, 'taken');
+        edgeContext.set(edge.id, output);
+        edgeArrival.set(edge.id, edgeArrival.size);
+        // Fanning out opens a sub-branch per taken edge (1 -> 1.1, 1.2, ...)
+        edgeBranch.set(edge.id, taken.length > 1 ? `${branch}.${takenIndex + 1}` : branch);
+      });
+    };
 
-    } else {
-        // Standard linear transition
-        const nextEdge = edges.find(e => e.source === currentNode!.id);
-        if (nextEdge) {
-            currentNode = nodes.find(n => n.id === nextEdge.target);
+    const runNode = async (node: WorkflowNode, stepInput: any, branch: string) => {
+      // A resumed approval keeps its step, so the decision stays attached to what was asked
+      const waited = parentStepId ? undefined : waitingSteps.get(node.id);
+      const pendingStep: RunStep = {
+        id: waited?.id ?? `step-${clock.now()}-${stepSequence++}`,
+        nodeId: node.id,
+        nodeLabel: node.label,
+        status: 'pending',
+        startTime: waited?.startTime ?? isoNow(),
+        input: stepInput,
+        output: {},
+        logs: waited?.logs ?? [],
+        branch,
+        parentStepId,
+        iteration,
+        signal: waited?.signal
+      };
+      // When resuming, nodes that already completed replay their recorded output. A run
+      // continued in place still has those steps, so nothing new is recorded for them.
+      const previous = parentStepId ? undefined : reusableSteps.get(node.id);
+      if (previous) {
+        if (!inPlace) {
+          upsertStep({
+            ...pendingStep,
+            status: previous.status,
+            endTime: isoNow(),
+            duration: previous.duration,
+            output: previous.output,
+            produced: previous.produced,
+            handledBy: previous.handledBy,
+            logs: [`Reused output from run ${resume!.run.id} (not executed again)`],
+            reusedFrom: resume!.run.id
+          });
+        }
+        // Runs recorded before steps kept `produced` only have the full context to diff
+        resolveOutgoing(node, branch, stepInput, previous.produced ?? diffContext(previous.input, previous.output), previous.handledBy === 'route');
+        nodeState.set(node.id, 'done');
+        return;
+      }
+
+      upsertStep(pendingStep);
+
+      try {
+        if (node.type === NodeType.DELAY) {
+          pendingStep.waitingFor = getDelayWait(node, stepInput, pendingStep);
+          const remaining = Date.parse(pendingStep.waitingFor.resumeAt!) - clock.now();
+          if (remaining > 0) {
+            const suspend = remaining > IN_PROCESS_DELAY_MS && !parentStepId && !options.parentRun;
+            pendingStep.logs = waited ? pendingStep.logs : [`Waiting ${describeDuration(remaining)}, until ${pendingStep.waitingFor.resumeAt}.`];
+            upsertStep({ ...pendingStep, status: 'waiting' });
+            if (suspend) {
+              suspended = true;
+              nodeState.set(node.id, 'done');
+              return;
+            }
+            await wait(remaining, signal, clock);
+          }
+        }
+
+        if (node.type === NodeType.APPROVAL) {
+          pendingStep.waitingFor = getApprovalWait(node, stepInput, pendingStep);
+          const { expiresAt, message } = pendingStep.waitingFor;
+          if (!pendingStep.signal && !(expiresAt && clock.now() >= Date.parse(expiresAt))) {
+            // The branch stops here; its outgoing edges stay unresolved until the run is resumed
+            suspended = true;
+            nodeState.set(node.id, 'done');
+            upsertStep({
+              ...pendingStep,
+              status: 'waiting',
+              logs: waited ? pendingStep.logs : [
+                `Approval requested: ${message || '(no message)'}`,
+                expiresAt ? `Waiting for a decision until ${expiresAt}.` : 'Waiting for a decision.'
+              ]
+            });
+            return;
+          }
+        }
+
+        const { output, produced, logs, duration } = node.type === NodeType.FOREACH
+          ? await runLoop(node, stepInput, pendingStep, branch)
+          : node.type === NodeType.SUBWORKFLOW
+          ? await runSubWorkflow(node, stepInput, pendingStep)
+          : node.type === NodeType.APPROVAL
+          ? completeApproval(node, stepInput, pendingStep)
+          : node.type === NodeType.DELAY
+          ? completeDelay(stepInput, pendingStep)
+          : await processNode(node, stepInput, signal, env);
+        upsertStep({
+          ...pendingStep,
+          status: 'success',
+          endTime: isoNow(),
+          duration,
+          output,
+          produced,
+          logs
+        });
+        // Pass data forward along the chosen edges
+        resolveOutgoing(node, branch, stepInput, produced);
+        nodeState.set(node.id, 'done');
+      } catch (error: any) {
+        if (signal.aborted) {
+          // Cancellation and workflow timeouts bypass error policies
+          failed = true;
+          nodeState.set(node.id, 'done');
+          upsertStep({
+            ...pendingStep,
+            status: signal.reason instanceof CancelledError ? 'cancelled' : 'failed',
+            endTime: isoNow(),
+            logs: [...(error?.logs || []), `Aborted: ${signal.reason?.message}`]
+          });
+          return;
+        }
+
+        const policy = node.onError?.mode || 'fail';
+        const errorMessage = error?.message || String(error);
+        const logs = [...(error?.logs || []), 'Error: Execution failed', `Details: ${error}`];
+        let output = {};
+
+        if (policy === 'continue') {
+          logs.push(`Error policy: continuing with the original input.`);
+          output = { errorMessage };
+          resolveOutgoing(node, branch, stepInput, output);
+        } else if (policy === 'route') {
+          logs.push(`Error policy: routing to the '${ERROR_EDGE_LABEL}' path.`);
+          output = { errorMessage, errorNodeId: node.id, errorNode: node.label, failedInput: stepInput };
+          resolveOutgoing(node, branch, stepInput, output, true);
+        } else if (policy === 'fallback') {
+          logs.push(`Error policy: using fallback output.`);
+          output = node.onError?.fallbackOutput || {};
+          resolveOutgoing(node, branch, stepInput, output);
         } else {
-            currentNode = undefined; // End of flow
+          failed = true;
+        }
+
+        nodeState.set(node.id, 'done');
+        upsertStep({
+          ...pendingStep,
+          status: 'failed',
+          endTime: isoNow(),
+          output,
+          produced: policy === 'fail' ? undefined : output,
+          handledBy: policy === 'fail' ? undefined : policy,
+          logs
+        });
+      }
+    };
+
+    const startNode = (node: WorkflowNode, stepInput: any, branch: string) => {
+      nodeState.set(node.id, 'running');
+      if (!parentStepId) stepsExecuted++;
+      const task = runNode(node, stepInput, branch).finally(() => inFlight.delete(node.id));
+      inFlight.set(node.id, task);
+    };
+
+    const limitReached = () => !parentStepId && stepsExecuted >= MAX_EXECUTION_STEPS;
+
+    // Starts every node whose dependencies are resolved. Returns false if the safety valve tripped.
+    const scheduleReadyNodes = (): boolean => {
+      let progressed = true;
+      while (progressed) {
+        progressed = false;
+        for (const node of scopeNodes) {
+          if (nodeState.has(node.id)) continue;
+
+          const incoming = incomingOf(node.id);
+          const pendingCount = incoming.filter(e => !edgeState.has(e.id)).length;
+          const takenEdges = incoming
+            .filter(e => edgeState.get(e.id) === 'taken')
+            .sort((a, b) => edgeArrival.get(a.id)! - edgeArrival.get(b.id)!);
+          if (!isJoinSatisfied(node, takenEdges.length, pendingCount)) continue;
+
+          // Root nodes (Triggers, or the first nodes of a loop body) receive the scope input
+          if (incoming.length === 0) {
+            if (limitReached()) return false;
+            startNode(node, input, rootBranch(rootNodes.indexOf(node)));
+            continue;
+          }
+
+          if (takenEdges.length === 0) {
+            // Dead path: none of the upstream branches led here
+            nodeState.set(node.id, 'skipped');
+            outgoingOf(node.id).forEach(e => edgeState.set(e.id, 'skipped'));
+            progressed = true;
+            continue;
+          }
+
+          if (limitReached()) return false;
+          let stepInput;
+          if (node.type === NodeType.MERGE) {
+            // first-n only consumes the first N branches to arrive; later ones are ignored
+            const joined = node.config?.mode === 'first-n'
+              ? takenEdges.slice(0, parseInt(node.config?.count) || 1)
+              : takenEdges;
+            stepInput = mergeBranchContexts(
+              joined.map(e => ({ sourceId: e.source, context: edgeContext.get(e.id) })),
+              node.config?.strategy,
+              node.config?.outputKey || 'merged'
+            );
+          } else {
+            stepInput = Object.assign({}, ...takenEdges.map(e => edgeContext.get(e.id)));
+          }
+          if (takenEdges.length > 1) {
+            stepInput[STEPS_NAMESPACE] = joinStepOutputs(takenEdges.map(e => edgeContext.get(e.id)));
+          }
+          const branch = edgeBranch.get(takenEdges[0].id) || '1';
+          startNode(node, stepInput, node.type === NodeType.MERGE ? parentBranch(branch) : branch);
         }
+      }
+      return true;
+    };
+
+    // Fallback if circular: with no root to start from, just take the first node
+    if (scopeNodes.length > 0 && rootNodes.length === 0) {
+      startNode(scopeNodes[0], input, rootBranch(0));
     }
+
+    while (true) {
+      if (signal.aborted) failed = true;
+      if (!failed && !scheduleReadyNodes()) {
+        // Let in-flight branches settle before reporting the limit
+        await Promise.allSettled(inFlight.values());
+        return { failed: true, limitReached: true, output: {}, produced: {} };
+      }
+      if (inFlight.size === 0) break;
+      // Wait for any branch to finish, then look for newly unblocked nodes
+      await Promise.race(inFlight.values());
+    }
+
+    return { failed, limitReached: false, output: Object.assign({}, ...terminalContexts), produced: Object.assign({}, ...producedInScope) };
+  };
+
+  const result = await runGraph({ scope: buildScope(nodes, edges), input: initialInput });
+  activeRuns.delete(runId);
+  clock.clearTimeout(heartbeat);
+  dispose();
+
+  if (signal.aborted) {
+    currentRunLog = {
+      ...currentRunLog,
+      status: signal.reason instanceof CancelledError ? 'cancelled' : 'failed',
+      error: signal.reason?.message,
+      duration: formatDuration(startTime, clock)
+    };
+    onStepUpdate(currentRunLog);
+    return currentRunLog;
+  }
+
+  if (result.limitReached) {
+    const errorMsg = `Safety Limit Reached: Workflow exceeded ${MAX_EXECUTION_STEPS} steps. Possible infinite loop.`;
+    const limitStep: RunStep = {
+        id: `step-limit`,
+        nodeId: 'system',
+        nodeLabel: 'System Safety',
+        status: 'failed',
+        startTime: isoNow(),
+        endTime: isoNow(),
+        input: {},
+        output: {},
+        logs: [errorMsg]
+    };
+    currentRunLog = {
+        ...currentRunLog,
+        status: 'failed',
+        duration: formatDuration(startTime, clock),
+        steps: [...currentRunLog.steps, limitStep]
+    };
+    onStepUpdate(currentRunLog);
+    return currentRunLog;
   }
 
   // Complete Run
   currentRunLog = {
     ...currentRunLog,
-    status: 'success',
-    duration: ((Date.now() - startTime.getTime()) / 1000).toFixed(1) + 's'
+    status: result.failed ? 'failed' : suspended ? 'waiting' : 'success',
+    duration: formatDuration(startTime, clock),
+    output: result.failed || suspended ? undefined : result.output
   };
   onStepUpdate(currentRunLog);
 
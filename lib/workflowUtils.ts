@@ -1,5 +1,18 @@
 
-import { WorkflowNode, WorkflowEdge, NodeType } from '../types';
+import { Workflow, WorkflowNode, WorkflowEdge, WorkflowVersion, NodeType, MergeMode, MergeStrategy } from '../types';
+import { parseDuration } from './duration';
+import { validateTemplate } from './expressions';
+import { validateConditions, getConditionGroup } from './conditions';
+import { DELAY_MODES, parseTimestamp, validateBusinessHours } from './delay';
+import { validateCron } from './cron';
+import { isValidTimeZone } from './timezone';
+import { isScheduleTrigger } from './scheduler';
+import { isWebhookTrigger, getWebhookPath, WEBHOOK_PATH_PATTERN } from './webhooks';
+import { ConnectorRegistry, validateConfig } from './connectorSdk';
+import { defaultConnectors, ENGINE_NODE_TYPES } from './connectors';
+
+export const MERGE_MODES: MergeMode[] = ['wait-all', 'wait-any', 'first-n'];
+export const MERGE_STRATEGIES: MergeStrategy[] = ['combine', 'prefer-first', 'deep', 'by-branch', 'append'];
 
 // Get all nodes that are strictly upstream of the target node
 export const getUpstreamNodes = (
@@ -31,9 +44,111 @@ export const getUpstreamNodes = (
   return nodes.filter(n => upstream.has(n.id));
 };
 
+// Context key holding each node's own output, keyed by step slug
+export const STEPS_NAMESPACE = 'steps';
+
+// Names used in {{steps.<slug>.field}}, derived from node labels ('Send to Slack' -> 'send_to_slack').
+// Duplicate labels get a numeric suffix in node order.
+export const getStepSlugs = (nodes: WorkflowNode[]): Map<string, string> => {
+  const slugs = new Map<string, string>();
+  const used = new Set<string>();
+  nodes.forEach(node => {
+    const base = (node.label || '').toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'step';
+    const prefixed = /^\d/.test(base) ? `step_${base}` : base;
+    let slug = prefixed;
+    for (let n = 2; used.has(slug); n++) slug = `${prefixed}_${n}`;
+    used.add(slug);
+    slugs.set(node.id, slug);
+  });
+  return slugs;
+};
+
+// Label of the edges leading from a FOREACH node into its loop body
+export const LOOP_BODY_LABEL = 'each';
+
+// Label of the SWITCH edge followed when no case matches
+export const SWITCH_DEFAULT_LABEL = 'default';
+
+// Case values of a SWITCH node, trimmed, in evaluation order. Generated workflows may store them comma-separated.
+export const getSwitchCases = (node: WorkflowNode): string[] => {
+  const cases = node.config?.cases;
+  if (typeof cases === 'string') return cases.split(',').map(c => c.trim()).filter(Boolean);
+  return (Array.isArray(cases) ? cases : []).map((c: any) => String(c ?? '').trim());
+};
+
+// Paths an APPROVAL node can take. Unlabeled edges belong to the approved path.
+export const APPROVAL_OUTCOMES = ['approved', 'rejected', 'expired'];
+export const APPROVAL_EXPIRED_LABEL = 'expired';
+
+// Label of the edges followed when a node with an 'route' error policy fails
+export const ERROR_EDGE_LABEL = 'error';
+
+// Collect nodes reachable from a set of start nodes (inclusive)
+export const collectReachable = (edges: WorkflowEdge[], startIds: string[]): Set<string> => {
+  const reachable = new Set<string>();
+  const queue = [...startIds];
+  while (queue.length > 0) {
+    const currentId = queue.shift()!;
+    if (reachable.has(currentId)) continue;
+    reachable.add(currentId);
+    edges.filter(e => e.source === currentId).forEach(e => queue.push(e.target));
+  }
+  return reachable;
+};
+
+// Get the ids of all nodes that form the loop body of a FOREACH node
+export const getLoopBodyIds = (edges: WorkflowEdge[], loopNodeId: string): Set<string> => {
+  const entryIds = edges
+    .filter(e => e.source === loopNodeId && e.label?.toLowerCase() === LOOP_BODY_LABEL)
+    .map(e => e.target);
+  return collectReachable(edges, entryIds);
+};
+
+// Every string inside a node config with its field path, e.g. ['config.subject', 'Hi {{name}}']
+const collectConfigStrings = (value: any, path: string): [string, string][] => {
+  if (typeof value === 'string') return [[path, value]];
+  if (Array.isArray(value)) return value.flatMap((item, i) => collectConfigStrings(item, `${path}[${i}]`));
+  if (typeof value === 'object' && value !== null) {
+    return Object.keys(value).flatMap(key => collectConfigStrings(value[key], `${path}.${key}`));
+  }
+  return [];
+};
+
+// Workflow ids called by the SUBWORKFLOW nodes of a workflow
+const getCalledWorkflowIds = (nodes: WorkflowNode[]): string[] =>
+  nodes.filter(n => n.type === NodeType.SUBWORKFLOW && n.config?.workflowId).map(n => String(n.config.workflowId));
+
+// The first call chain starting at rootId that calls back into a workflow already on it, e.g. [a, b, a]
+export const findCallCycle = (rootId: string, rootNodes: WorkflowNode[], workflows: Workflow[]): string[] | null => {
+  const acyclic = new Set<string>();
+  const visit = (nodes: WorkflowNode[], chain: string[]): string[] | null => {
+    for (const calledId of getCalledWorkflowIds(nodes)) {
+      if (chain.includes(calledId)) return [...chain, calledId];
+      const called = workflows.find(w => w.id === calledId);
+      if (!called || acyclic.has(calledId)) continue;
+      const cycle = visit(called.nodes, [...chain, calledId]);
+      if (cycle) return cycle;
+      acyclic.add(calledId);
+    }
+    return null;
+  };
+  return visit(rootNodes, [rootId]);
+};
+
+// Other workflows, for checks that look across workflows (sub-workflow targets), and the
+// connectors the workflow will run with (the built-in ones by default)
+export interface ValidationContext {
+    workflowId?: string;
+    workflows?: Workflow[];
+    connectors?: ConnectorRegistry;
+}
+
 export interface ValidationResult {
     isValid: boolean;
     errors: string[];
+    // Problems that do not stop a run. Required settings left empty are reported here, so workflows
+    // saved before their connector declared them keep running.
+    warnings: string[];
 }
 
 // Detect cycles using DFS
@@ -69,8 +184,12 @@ const hasCycle = (nodes: WorkflowNode[], edges: WorkflowEdge[]): boolean => {
     return false;
 };
 
-export const validateWorkflow = (nodes: WorkflowNode[], edges: WorkflowEdge[]): ValidationResult => {
+export const validateWorkflow = (nodes: WorkflowNode[], edges: WorkflowEdge[], context: ValidationContext = {}): ValidationResult => {
     const errors: string[] = [];
+    const warnings: string[] = [];
+    const { workflowId, workflows, connectors = defaultConnectors } = context;
+    // The saved copy of this workflow may be outdated, so its own calls come from `nodes`
+    const callGraph = workflows?.map(w => w.id === workflowId ? { ...w, nodes } : w);
 
     // 1. Check for Triggers
     const triggers = nodes.filter(n => n.type === NodeType.TRIGGER);
@@ -96,6 +215,21 @@ export const validateWorkflow = (nodes: WorkflowNode[], edges: WorkflowEdge[]):
     // 4. Basic Config Validation
     nodes.forEach(node => {
         if (!node.service) errors.push(`Node '${node.label}' is missing a service definition.`);
+
+        // The operation has to exist on the service's connector and its config has to match the
+        // operation's schema; services without a connector run a generic handler
+        if (node.service && !ENGINE_NODE_TYPES.includes(node.type)) {
+             try {
+                 const resolved = connectors.resolve(node);
+                 if (resolved) {
+                     validateConfig(resolved.operation.config, node.config).forEach(({ message, missing }) => {
+                         (missing ? warnings : errors).push(`Node '${node.label}': ${message}`);
+                     });
+                 }
+             } catch (e: any) {
+                 errors.push(`Node '${node.label}': ${e.message}`);
+             }
+        }
         
         // Specific checks
         if (node.type === NodeType.CONDITION) {
@@ -104,11 +238,247 @@ export const validateWorkflow = (nodes: WorkflowNode[], edges: WorkflowEdge[]):
              if (outgoing.length === 0) {
                  errors.push(`Condition '${node.label}' has no outgoing paths.`);
              }
+             validateConditions(getConditionGroup(node.config)).forEach(message => {
+                 errors.push(`Condition '${node.label}' ${message}.`);
+             });
+        }
+
+        if (node.type === NodeType.SWITCH) {
+             const outgoing = edges.filter(e => e.source === node.id);
+             const labels = outgoing.map(e => (e.label || '').trim().toLowerCase());
+             const cases = getSwitchCases(node);
+             if (!node.config?.variable?.trim()) {
+                 errors.push(`Switch '${node.label}' has no variable to switch on.`);
+             }
+             if (cases.length === 0) {
+                 errors.push(`Switch '${node.label}' has no cases.`);
+             }
+             cases.forEach((value, i) => {
+                 const key = value.toLowerCase();
+                 if (!value) {
+                     errors.push(`Switch '${node.label}' case ${i + 1} is empty.`);
+                 } else if (key === SWITCH_DEFAULT_LABEL || key === ERROR_EDGE_LABEL) {
+                     errors.push(`Switch '${node.label}' cannot use the reserved case '${value}'.`);
+                 } else if (cases.findIndex(c => c.toLowerCase() === key) !== i) {
+                     errors.push(`Switch '${node.label}' has the case '${value}' more than once.`);
+                 } else if (!labels.includes(key)) {
+                     errors.push(`Switch '${node.label}' case '${value}' has no outgoing path.`);
+                 }
+             });
+             // Every labeled edge must belong to a case, the default path or the error route
+             outgoing.forEach(e => {
+                 const label = (e.label || '').trim().toLowerCase();
+                 if (label && label !== SWITCH_DEFAULT_LABEL && label !== ERROR_EDGE_LABEL && !cases.some(c => c.toLowerCase() === label)) {
+                     errors.push(`Switch '${node.label}' has a path labeled '${e.label}' that matches no case.`);
+                 }
+             });
+        }
+
+        if (node.type === NodeType.SUBWORKFLOW) {
+             const targetId = node.config?.workflowId;
+             if (!targetId) {
+                 errors.push(`Sub-workflow '${node.label}' has no workflow selected.`);
+             } else if (workflows && !workflows.some(w => w.id === targetId)) {
+                 errors.push(`Sub-workflow '${node.label}' calls a workflow that no longer exists.`);
+             } else if (callGraph) {
+                 const cycle = findCallCycle(workflowId || '', [node], callGraph);
+                 if (cycle && cycle.length === 2 && targetId === workflowId) {
+                     errors.push(`Sub-workflow '${node.label}' calls the workflow it belongs to.`);
+                 } else if (cycle) {
+                     const names = cycle.map(id => id === workflowId ? 'this workflow' : callGraph.find(w => w.id === id)?.name || id);
+                     errors.push(`Sub-workflow '${node.label}' makes a recursive call chain: ${names.join(' → ')}.`);
+                 }
+                 // A waiting child run would leave its parent step with nothing to resume
+                 const target = callGraph.find(w => w.id === targetId);
+                 if (target?.nodes.some(n => n.type === NodeType.APPROVAL)) {
+                     errors.push(`Sub-workflow '${node.label}' calls '${target.name}', which waits for approval. Approvals only work in top-level runs.`);
+                 }
+             }
+        }
+
+        if (node.type === NodeType.APPROVAL) {
+             const outgoing = edges.filter(e => e.source === node.id);
+             const expiresAfter = node.config?.expiresAfter;
+             if (expiresAfter && parseDuration(expiresAfter) === null) {
+                 errors.push(`Approval '${node.label}' has an invalid expiry '${expiresAfter}'.`);
+             }
+             if (!expiresAfter && outgoing.some(e => e.label?.trim().toLowerCase() === APPROVAL_EXPIRED_LABEL)) {
+                 errors.push(`Approval '${node.label}' has an '${APPROVAL_EXPIRED_LABEL}' path but never expires.`);
+             }
+             outgoing.forEach(e => {
+                 const label = (e.label || '').trim().toLowerCase();
+                 if (label && label !== ERROR_EDGE_LABEL && !APPROVAL_OUTCOMES.includes(label)) {
+                     errors.push(`Approval '${node.label}' has a path labeled '${e.label}'; use ${APPROVAL_OUTCOMES.join(', ')}.`);
+                 }
+             });
+             // Loop iterations are not recorded in a way a resumed run could pick up again
+             const loop = nodes.find(n => n.type === NodeType.FOREACH && getLoopBodyIds(edges, n.id).has(node.id));
+             if (loop) {
+                 errors.push(`Approval '${node.label}' is inside the body of loop '${loop.label}'. Approvals cannot wait inside loops.`);
+             }
+        }
+
+        if (node.type === NodeType.DELAY) {
+             const mode = node.config?.mode || 'for';
+             // Templated values are only known at run time
+             const isTemplate = (value: any) => String(value).includes('{{');
+             if (!DELAY_MODES.includes(mode)) {
+                 errors.push(`Delay '${node.label}' has an unknown mode '${mode}'.`);
+             } else if (mode === 'for') {
+                 const duration = node.config?.duration;
+                 if (!duration) {
+                     errors.push(`Delay '${node.label}' has no duration.`);
+                 } else if (!isTemplate(duration) && parseDuration(duration) === null) {
+                     errors.push(`Delay '${node.label}' has an invalid duration '${duration}'.`);
+                 }
+             } else {
+                 const until = node.config?.until;
+                 if (!until) {
+                     errors.push(`Delay '${node.label}' has no time to wait until.`);
+                 } else if (!isTemplate(until) && !parseTimestamp(until)) {
+                     errors.push(`Delay '${node.label}' cannot wait until '${until}': it is not a date.`);
+                 }
+             }
+             if (node.config?.businessHours) {
+                 validateBusinessHours(node.config.businessHours).forEach(message => {
+                     errors.push(`Delay '${node.label}' ${message}.`);
+                 });
+             }
+        }
+
+        if (isScheduleTrigger(node)) {
+             const cron = node.config?.cron;
+             // A missing schedule and an unknown catch-up policy are found by the connector's config schema
+             const cronError = cron ? validateCron(cron) : null;
+             if (cronError) {
+                 errors.push(`Trigger '${node.label}' has an invalid schedule '${cron}': ${cronError}.`);
+             }
+             if (node.config?.timezone && !isValidTimeZone(node.config.timezone)) {
+                 errors.push(`Trigger '${node.label}' has an unknown time zone '${node.config.timezone}'.`);
+             }
+        }
+
+        if (isWebhookTrigger(node)) {
+             const path = getWebhookPath(workflowId || '', node);
+             const custom = (node.config?.path || '').trim();
+             if (custom && !WEBHOOK_PATH_PATTERN.test(custom)) {
+                 errors.push(`Trigger '${node.label}' has an invalid webhook path '${custom}' (use letters, digits, '-' and '_').`);
+             } else if (custom || workflowId) {
+                 const sameWorkflow = nodes.some(n => n.id !== node.id && isWebhookTrigger(n) && getWebhookPath(workflowId || '', n) === path);
+                 const other = workflows?.find(w => w.id !== workflowId && w.nodes.some(n => isWebhookTrigger(n) && getWebhookPath(w.id, n) === path));
+                 if (sameWorkflow) {
+                     errors.push(`Trigger '${node.label}' uses webhook path '${path}', which another trigger of this workflow already uses.`);
+                 } else if (other) {
+                     errors.push(`Trigger '${node.label}' uses webhook path '${path}', which workflow '${other.name}' already uses.`);
+                 }
+             }
+        }
+
+        if (node.type === NodeType.SCRIPT && node.config?.language === 'typescript' && node.config?.code && typeof node.config?.compiledCode !== 'string') {
+             errors.push(`Script '${node.label}' is TypeScript but has not been compiled. Open it and save.`);
+        }
+
+        // Template syntax and filter names ({{ }} references are only checked at run time)
+        collectConfigStrings(node.config, 'config').forEach(([field, text]) => {
+             validateTemplate(text).forEach(message => {
+                 errors.push(`Node '${node.label}' has an invalid expression in ${field}: ${message}`);
+             });
+        });
+
+        // Error policies
+        const errorEdges = edges.filter(e => e.source === node.id && e.label?.toLowerCase() === ERROR_EDGE_LABEL);
+        const errorMode = node.onError?.mode || 'fail';
+        if (errorMode === 'route' && errorEdges.length === 0) {
+             errors.push(`Node '${node.label}' routes errors but has no '${ERROR_EDGE_LABEL}' path.`);
+        }
+        if (errorMode !== 'route' && errorEdges.length > 0) {
+             errors.push(`Node '${node.label}' has an '${ERROR_EDGE_LABEL}' path but its error policy is '${errorMode}'.`);
+        }
+        if (errorMode === 'fallback' && (typeof node.onError?.fallbackOutput !== 'object' || node.onError.fallbackOutput === null)) {
+             errors.push(`Node '${node.label}' uses a fallback error policy without a fallback output.`);
+        }
+
+        // Retry policy
+        if (node.retry) {
+             const { maximumAttempts, initialInterval, backoffCoefficient, maximumInterval } = node.retry;
+             if (!Number.isInteger(maximumAttempts) || maximumAttempts < 1) {
+                 errors.push(`Node '${node.label}' retry policy needs at least 1 attempt.`);
+             }
+             if (parseDuration(initialInterval) === null) {
+                 errors.push(`Node '${node.label}' has an invalid retry interval '${initialInterval}'.`);
+             }
+             if (maximumInterval && parseDuration(maximumInterval) === null) {
+                 errors.push(`Node '${node.label}' has an invalid maximum retry interval '${maximumInterval}'.`);
+             }
+             if (!(backoffCoefficient >= 1)) {
+                 errors.push(`Node '${node.label}' retry backoff coefficient must be at least 1.`);
+             }
+        }
+
+        if (node.timeout && parseDuration(node.timeout) === null) {
+             errors.push(`Node '${node.label}' has an invalid timeout '${node.timeout}'.`);
+        }
+
+        if (node.type === NodeType.FOREACH) {
+             const outgoing = edges.filter(e => e.source === node.id);
+             const bodyEdges = outgoing.filter(e => e.label?.toLowerCase() === LOOP_BODY_LABEL);
+             if (bodyEdges.length === 0) {
+                 errors.push(`Loop '${node.label}' has no '${LOOP_BODY_LABEL}' path to run per item.`);
+             }
+             // The body must be self-contained: nothing after the loop may be part of it
+             const body = getLoopBodyIds(edges, node.id);
+             const continuation = collectReachable(edges, outgoing.filter(e => !bodyEdges.includes(e)).map(e => e.target));
+             const shared = nodes.filter(n => body.has(n.id) && continuation.has(n.id));
+             if (shared.length > 0) {
+                 errors.push(`Loop '${node.label}' body and continuation both reach '${shared[0].label}'.`);
+             }
+             const concurrency = node.config?.concurrency;
+             if (concurrency !== undefined && concurrency !== '' && !(parseInt(concurrency) >= 1)) {
+                 errors.push(`Loop '${node.label}' concurrency must be at least 1.`);
+             }
+        }
+
+        if (node.type === NodeType.MERGE) {
+             const incomingCount = edges.filter(e => e.target === node.id).length;
+             if (incomingCount < 2) {
+                 errors.push(`Merge '${node.label}' needs at least two incoming branches.`);
+             }
+             const mode = node.config?.mode || 'wait-all';
+             if (!MERGE_MODES.includes(mode)) {
+                 errors.push(`Merge '${node.label}' has an unknown mode '${mode}'.`);
+             }
+             if (node.config?.strategy && !MERGE_STRATEGIES.includes(node.config.strategy)) {
+                 errors.push(`Merge '${node.label}' has an unknown merge strategy '${node.config.strategy}'.`);
+             }
+             if (mode === 'first-n') {
+                 const count = parseInt(node.config?.count);
+                 if (!count || count < 1 || count > incomingCount) {
+                     errors.push(`Merge '${node.label}' must wait for between 1 and ${incomingCount} branches.`);
+                 }
+             }
         }
     });
 
     return {
         isValid: errors.length === 0,
-        errors
+        errors,
+        warnings
     };
 };
+
+// Saving a workflow keeps its previous definition in the version history (the newest 10)
+const MAX_WORKFLOW_VERSIONS = 10;
+
+export const withVersionSnapshot = (existing: Workflow | undefined, next: Workflow): Workflow => {
+  const history = existing?.history || [];
+  if (!existing) return { ...next, history };
+  const version: WorkflowVersion = {
+    id: `v-${Date.now()}`,
+    versionNumber: history.length + 1,
+    createdAt: new Date().toISOString(),
+    nodes: existing.nodes,
+    edges: existing.edges,
+    name: existing.name
+  };
+  return { ...next, history: [version, ...history].slice(0, MAX_WORKFLOW_VERSIONS) };
+};
@@ -0,0 +1,255 @@
+// REST API for other services: workflow CRUD, starting runs and following or cancelling them.
+// Run with `npm run api`; see the README for the endpoints and authentication.
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { createHash, timingSafeEqual } from 'crypto';
+import { Workflow, RunLog, RunHost, ApprovalDecision } from '../types';
+import { validateWorkflow, withVersionSnapshot } from '../lib/workflowUtils';
+import { cancelRun, cancelWaitingRun, signalRun } from '../lib/engine';
+import { createServerStore } from './store';
+import { startRun, getExecutingRun, continueWaitingRuns, watchWaitingRuns } from './runs';
+import { HttpProblem, send, readBody, parseBody, handleErrors } from './http';
+
+const DEFAULT_API_PORT = 8788;
+const API_PREFIX = '/api';
+const MAX_RUN_LIMIT = 200;
+const HOST: RunHost = 'api';
+const DECISIONS: ApprovalDecision[] = ['approved', 'rejected'];
+
+const WORKFLOW_STATUSES: Workflow['status'][] = ['active', 'draft', 'paused'];
+// Fields a client may set on create and update; everything else is managed by the server
+const EDITABLE_FIELDS = ['name', 'description', 'status', 'nodes', 'edges', 'settings'] as const;
+
+const store = createServerStore();
+
+// Comma-separated in AUTOMATOR_API_KEYS. Compared as digests so the comparison takes the same time
+// whatever the key's length.
+const digest = (key: string) => createHash('sha256').update(key).digest();
+const apiKeys = (process.env.AUTOMATOR_API_KEYS || '').split(',').map(k => k.trim()).filter(Boolean).map(digest);
+
+const authenticate = (req: IncomingMessage) => {
+  const header = req.headers.authorization || '';
+  const key = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+  if (!key || !apiKeys.some(known => timingSafeEqual(known, digest(key)))) {
+    throw new HttpProblem(401, 'Missing or invalid API key. Send it as "Authorization: Bearer <key>".');
+  }
+};
+
+const readJsonBody = async (req: IncomingMessage): Promise<any> => {
+  const raw = await readBody(req);
+  if (raw.length && !(req.headers['content-type'] || '').includes('application/json')) {
+    throw new HttpProblem(415, 'Request bodies must be JSON (Content-Type: application/json).');
+  }
+  return parseBody(raw, 'application/json');
+};
+
+// Checks the shape of the editable fields; whether the graph is runnable is checked when it runs
+const readWorkflowFields = (body: any, requireName: boolean): Partial<Workflow> => {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) throw new HttpProblem(400, 'Expected a JSON object.');
+  const unknown = Object.keys(body).filter(key => !(EDITABLE_FIELDS as readonly string[]).includes(key));
+  if (unknown.length) throw new HttpProblem(400, `Unknown or read-only fields: ${unknown.join(', ')}.`);
+
+  const problems: string[] = [];
+  if (requireName || 'name' in body) {
+    if (typeof body.name !== 'string' || !body.name.trim()) problems.push("'name' must be a non-empty string.");
+  }
+  if ('description' in body && typeof body.description !== 'string') problems.push("'description' must be a string.");
+  if ('status' in body && !WORKFLOW_STATUSES.includes(body.status)) problems.push(`'status' must be one of ${WORKFLOW_STATUSES.join(', ')}.`);
+  if ('nodes' in body && !Array.isArray(body.nodes)) problems.push("'nodes' must be an array.");
+  if ('edges' in body && !Array.isArray(body.edges)) problems.push("'edges' must be an array.");
+  if ('settings' in body && (typeof body.settings !== 'object' || Array.isArray(body.settings))) problems.push("'settings' must be an object.");
+  if (problems.length) throw new HttpProblem(400, 'Invalid workflow.', problems);
+  return body;
+};
+
+const findWorkflow = async (id: string): Promise<Workflow> => {
+  const workflow = await store.getWorkflow(id);
+  if (!workflow) throw new HttpProblem(404, `Workflow ${id} not found.`);
+  return workflow;
+};
+
+const findRun = async (id: string): Promise<RunLog> => {
+  const run = await store.getRun(id);
+  if (!run) throw new HttpProblem(404, `Run ${id} not found.`);
+  return run;
+};
+
+// --- Handlers ---
+
+type Params = Record<string, string>;
+type Route = [method: string, pattern: RegExp, handler: (req: IncomingMessage, res: ServerResponse, params: Params, url: URL) => Promise<void>];
+
+const listWorkflows = async (req: IncomingMessage, res: ServerResponse) => {
+  send(res, 200, { workflows: await store.listWorkflows() });
+};
+
+const getWorkflow = async (req: IncomingMessage, res: ServerResponse, { id }: Params) => {
+  send(res, 200, await findWorkflow(id));
+};
+
+const createWorkflow = async (req: IncomingMessage, res: ServerResponse) => {
+  const fields = readWorkflowFields(await readJsonBody(req), true);
+  const workflow: Workflow = {
+    id: `wf-${Date.now()}`,
+    name: '',
+    description: '',
+    status: 'draft',
+    createdAt: new Date().toISOString(),
+    nodes: [],
+    edges: [],
+    stats: { runs: 0, successRate: 0 },
+    ...fields
+  };
+  await store.saveWorkflow(workflow);
+  send(res, 201, workflow);
+};
+
+const updateWorkflow = async (req: IncomingMessage, res: ServerResponse, { id }: Params) => {
+  const fields = readWorkflowFields(await readJsonBody(req), false);
+  const existing = await findWorkflow(id);
+  const workflow = withVersionSnapshot(existing, { ...existing, ...fields });
+  await store.saveWorkflow(workflow);
+  send(res, 200, workflow);
+};
+
+const deleteWorkflow = async (req: IncomingMessage, res: ServerResponse, { id }: Params) => {
+  if (!(await store.deleteWorkflow(id))) throw new HttpProblem(404, `Workflow ${id} not found.`);
+  send(res, 204);
+};
+
+// The request body is the run input, like the payload of a manual run in the app
+const triggerRun = async (req: IncomingMessage, res: ServerResponse, { id }: Params) => {
+  const input = await readJsonBody(req);
+  const workflows = await store.listWorkflows();
+  const workflow = workflows.find(w => w.id === id);
+  if (!workflow) throw new HttpProblem(404, `Workflow ${id} not found.`);
+  const validation = validateWorkflow(workflow.nodes, workflow.edges, { workflowId: workflow.id, workflows });
+  if (!validation.isValid) throw new HttpProblem(422, `Workflow '${workflow.name}' is invalid.`, validation.errors);
+
+  let run: RunLog;
+  try {
+    run = await startRun(store, workflows, workflow, input, { host: HOST });
+  } catch {
+    throw new HttpProblem(500, 'Run failed to start.');
+  }
+  console.log(`API: started ${run.id} (${workflow.name})`);
+  send(res, 202, run);
+};
+
+const listRuns = async (req: IncomingMessage, res: ServerResponse, params: Params, url: URL) => {
+  const limit = url.searchParams.has('limit') ? parseInt(url.searchParams.get('limit')!) : undefined;
+  if (limit !== undefined && !(limit >= 1 && limit <= MAX_RUN_LIMIT)) {
+    throw new HttpProblem(400, `'limit' must be between 1 and ${MAX_RUN_LIMIT}.`);
+  }
+  const workflowId = url.searchParams.get('workflowId') || undefined;
+  send(res, 200, { runs: await store.listRuns({ workflowId, limit }) });
+};
+
+const getRun = async (req: IncomingMessage, res: ServerResponse, { id }: Params) => {
+  send(res, 200, await findRun(id));
+};
+
+// Runs executing in this server are aborted and answered once they stopped. Waiting runs are not
+// executing anywhere, so they are ended here. Runs executing elsewhere can only be cancelled there.
+const cancel = async (req: IncomingMessage, res: ServerResponse, { id }: Params) => {
+  const executing = getExecutingRun(id);
+  if (executing && cancelRun(id)) {
+    send(res, 200, await executing);
+    return;
+  }
+  const run = await findRun(id);
+  if (run.status === 'waiting') {
+    const cancelled = cancelWaitingRun(run, 'Run cancelled through the API.');
+    store.saveRun(cancelled);
+    send(res, 200, cancelled);
+  } else if (run.status === 'running') {
+    throw new HttpProblem(409, `Run ${id} is executing in another process (the app or the webhook server) and can only be cancelled there.`);
+  } else {
+    throw new HttpProblem(409, `Run ${id} already ended (${run.status}).`);
+  }
+};
+
+// Records a decision on an approval the run waits on. Runs started by this server continue right
+// away; others continue where they were started (the app or the webhook server).
+const signal = async (req: IncomingMessage, res: ServerResponse, { id }: Params) => {
+  const body = await readJsonBody(req);
+  if (!body || typeof body !== 'object' || Array.isArray(body)) throw new HttpProblem(400, 'Expected a JSON object.');
+  const problems: string[] = [];
+  if (!DECISIONS.includes(body.decision)) problems.push(`'decision' must be one of ${DECISIONS.join(', ')}.`);
+  ['stepId', 'comment', 'actor'].forEach(key => {
+    if (key in body && typeof body[key] !== 'string') problems.push(`'${key}' must be a string.`);
+  });
+  if (problems.length) throw new HttpProblem(400, 'Invalid signal.', problems);
+
+  const run = await findRun(id);
+  const approvals = run.status === 'waiting' ? run.steps.filter(s => s.status === 'waiting' && s.waitingFor?.kind === 'approval') : [];
+  const step = body.stepId ? approvals.find(s => s.id === body.stepId) : approvals.length === 1 ? approvals[0] : undefined;
+  if (!step) {
+    throw new HttpProblem(409, body.stepId ? `Step ${body.stepId} of run ${id} is not waiting for a decision.`
+      : approvals.length ? `Run ${id} waits on ${approvals.length} approvals; pass the 'stepId' to decide.`
+      : `Run ${id} is not waiting for a decision.`);
+  }
+
+  let signalled: RunLog;
+  try {
+    signalled = signalRun(run, step.id, { decision: body.decision, comment: body.comment, actor: body.actor });
+  } catch (e: any) {
+    throw new HttpProblem(409, e.message);
+  }
+  store.saveRun(signalled);
+  if (signalled.host === HOST) continueWaitingRuns(store, HOST);
+  send(res, 202, signalled);
+};
+
+const ROUTES: Route[] = [
+  ['GET', /^\/workflows$/, listWorkflows],
+  ['POST', /^\/workflows$/, createWorkflow],
+  ['GET', /^\/workflows\/(?<id>[^/]+)$/, getWorkflow],
+  ['PATCH', /^\/workflows\/(?<id>[^/]+)$/, updateWorkflow],
+  ['DELETE', /^\/workflows\/(?<id>[^/]+)$/, deleteWorkflow],
+  ['POST', /^\/workflows\/(?<id>[^/]+)\/runs$/, triggerRun],
+  ['GET', /^\/runs$/, listRuns],
+  ['GET', /^\/runs\/(?<id>[^/]+)$/, getRun],
+  ['POST', /^\/runs\/(?<id>[^/]+)\/cancel$/, cancel],
+  ['POST', /^\/runs\/(?<id>[^/]+)\/signal$/, signal]
+];
+
+const server = createServer(handleErrors(async (req, res, url) => {
+  if (url.pathname === '/health') {
+    send(res, 200, { ok: true, store: store.kind });
+    return;
+  }
+  if (!url.pathname.startsWith(`${API_PREFIX}/`)) throw new HttpProblem(404, `Not found: ${url.pathname}`);
+
+  authenticate(req);
+  const path = url.pathname.slice(API_PREFIX.length);
+  const matches = ROUTES.filter(([, pattern]) => pattern.test(path));
+  if (!matches.length) throw new HttpProblem(404, `Not found: ${url.pathname}`);
+  const route = matches.find(([method]) => method === req.method);
+  if (!route) {
+    res.setHeader('Allow', matches.map(([method]) => method).join(', '));
+    throw new HttpProblem(405, `${req.method} is not supported on ${url.pathname}.`);
+  }
+
+  const [, pattern, handler] = route;
+  let params: Params;
+  try {
+    params = Object.fromEntries(
+      Object.entries(path.match(pattern)!.groups || {}).map(([name, value]) => [name, decodeURIComponent(value)])
+    );
+  } catch {
+    // Broken percent-encoding, e.g. %E0%A4%A
+    throw new HttpProblem(400, 'Malformed path.');
+  }
+  await handler(req, res, params, url);
+}));
+
+if (!apiKeys.length) {
+  console.error('Set AUTOMATOR_API_KEYS to one or more comma-separated keys before starting the API.');
+  process.exit(1);
+}
+
+const port = parseInt(process.env.API_PORT || '') || DEFAULT_API_PORT;
+server.listen(port, () => {
+  console.log(`REST API listening on http://localhost:${port}${API_PREFIX} (${store.kind})`);
+  watchWaitingRuns(store, HOST);
+});
@@ -0,0 +1,211 @@
+// Command-line runner for workflow JSON files, e.g. the canvas export. Run with
+// `npm run cli -- <validate|run> workflow.json [options]`; see the README for options and exit codes.
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Workflow, RunLog, RunStep } from '../types';
+import { createEngine, cancelRun, Engine } from '../lib/engine';
+import { describeDuration, parseDuration } from '../lib/duration';
+import { nodeEnvironment } from './nodeEnvironment';
+
+const USAGE = `Usage:
+  npm run cli -- validate <workflow.json> [--workflows <workflows.json>]
+  npm run cli -- run <workflow.json> [--input <payload.json>] [--workflows <workflows.json>] [--timeout <duration>]
+
+  --input      JSON file passed to the trigger as the run input
+  --workflows  JSON array of workflows that SUBWORKFLOW nodes may call
+  --timeout    Overall run timeout, e.g. '10m' (default: the workflow's own setting)`;
+
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+const EXIT_WAITING = 3; // Stopped at an approval, which cannot be given from the command line
+
+class UsageError extends Error {}
+
+interface CliArgs {
+  command: 'validate' | 'run';
+  file: string;
+  input?: string;
+  workflows?: string;
+  timeout?: string;
+}
+
+const OPTIONS = ['input', 'workflows', 'timeout'] as const;
+
+const parseArgs = (argv: string[]): CliArgs => {
+  const [command, file, ...rest] = argv;
+  if (command !== 'validate' && command !== 'run') throw new UsageError(command ? `Unknown command '${command}'.` : 'No command given.');
+  if (!file || file.startsWith('--')) throw new UsageError('No workflow file given.');
+
+  const args: CliArgs = { command, file };
+  for (let i = 0; i < rest.length; i += 2) {
+    const name = rest[i].replace(/^--/, '') as typeof OPTIONS[number];
+    if (!rest[i].startsWith('--') || !OPTIONS.includes(name)) throw new UsageError(`Unknown option '${rest[i]}'.`);
+    if (rest[i + 1] === undefined) throw new UsageError(`Option '${rest[i]}' needs a value.`);
+    args[name] = rest[i + 1];
+  }
+  if (args.timeout && parseDuration(args.timeout) === null) throw new UsageError(`Invalid timeout '${args.timeout}'.`);
+  if (command === 'validate' && (args.input || args.timeout)) throw new UsageError(`'validate' only accepts --workflows.`);
+  return args;
+};
+
+const readJson = async (file: string, what: string): Promise<any> => {
+  let text: string;
+  try {
+    text = await fs.readFile(file, 'utf8');
+  } catch (e: any) {
+    throw new UsageError(`Could not read ${what} ${file}: ${e.code === 'ENOENT' ? 'no such file' : e.message}`);
+  }
+  try {
+    return JSON.parse(text);
+  } catch (e: any) {
+    throw new UsageError(`${what[0].toUpperCase() + what.slice(1)} ${file} is not valid JSON: ${e.message}`);
+  }
+};
+
+// Accepts a full workflow as well as the { nodes, edges, name } the canvas exports
+const loadWorkflow = async (file: string): Promise<Workflow> => {
+  const data = await readJson(file, 'workflow');
+  if (!data || !Array.isArray(data.nodes) || !Array.isArray(data.edges)) {
+    throw new UsageError(`Workflow ${file} has no 'nodes' and 'edges' arrays.`);
+  }
+  const fallbackName = path.basename(file, path.extname(file));
+  return {
+    description: '',
+    status: 'active',
+    createdAt: new Date().toISOString(),
+    stats: { runs: 0, successRate: 0 },
+    ...data,
+    id: data.id || fallbackName,
+    name: data.name && data.name !== 'workflow' ? data.name : fallbackName
+  };
+};
+
+const loadWorkflowList = async (file?: string): Promise<Workflow[]> => {
+  if (!file) return [];
+  const data = await readJson(file, 'workflows file');
+  if (!Array.isArray(data)) throw new UsageError(`Workflows file ${file} must contain a JSON array.`);
+  return data;
+};
+
+const stepLabel = (step: RunStep) =>
+  step.parentStepId && step.iteration !== undefined ? `${step.nodeLabel} #${step.iteration + 1}` : step.nodeLabel;
+
+const STATUS_MARKS: Record<string, string> = { success: '✓', failed: '✗', cancelled: '■', waiting: '…' };
+
+// Prints log lines as steps append them, then one line per step once it settles
+const createStepPrinter = () => {
+  const printedLogs = new Map<string, number>();
+  const printedStatus = new Map<string, string>();
+  return (run: RunLog) => {
+    run.steps.forEach(step => {
+      const label = stepLabel(step);
+      step.logs.slice(printedLogs.get(step.id) || 0).forEach(line => console.log(`  [${label}] ${line}`));
+      printedLogs.set(step.id, step.logs.length);
+      if (step.status !== 'pending' && printedStatus.get(step.id) !== step.status) {
+        printedStatus.set(step.id, step.status);
+        console.log(`${STATUS_MARKS[step.status]} ${label} ${step.status}${step.duration ? ` (${step.duration})` : ''}`);
+      }
+    });
+  };
+};
+
+// The earliest time a delay step of a waiting run resumes, or null when it waits for a person
+const nextDelayEnd = (run: RunLog): number | null => {
+  const waits = run.steps.filter(s => s.status === 'waiting').map(s => s.waitingFor);
+  if (waits.some(w => w?.kind !== 'delay')) return null;
+  return Math.min(...waits.map(w => Date.parse(w!.resumeAt!)));
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Sub-workflow targets come from --workflows; the workflow itself can be called by its own id
+const createCliEngine = (workflow: Workflow, workflows: Workflow[], onUpdate: (run: RunLog) => void = () => {}) => {
+  const known = [workflow, ...workflows.filter(w => w.id !== workflow.id)];
+  return createEngine({
+    ...nodeEnvironment,
+    storage: {
+      getWorkflow: (id) => known.find(w => w.id === id),
+      listWorkflows: () => known,
+      saveRun: onUpdate
+    }
+  });
+};
+
+const reportValidation = (engine: Engine, workflow: Workflow): boolean => {
+  const { isValid, errors, warnings } = engine.validate(workflow);
+  if (isValid) {
+    console.log(`✓ ${workflow.name} is valid (${workflow.nodes.length} nodes, ${workflow.edges.length} edges).`);
+  } else {
+    console.error(`✗ ${workflow.name} is invalid:`);
+    errors.forEach(error => console.error(`  - ${error}`));
+  }
+  warnings.forEach(warning => console.warn(`  ! ${warning}`));
+  return isValid;
+};
+
+const validate = async (args: CliArgs): Promise<number> => {
+  const workflow = await loadWorkflow(args.file);
+  const engine = createCliEngine(workflow, await loadWorkflowList(args.workflows));
+  return reportValidation(engine, workflow) ? 0 : EXIT_FAILED;
+};
+
+const run = async (args: CliArgs): Promise<number> => {
+  const workflow = await loadWorkflow(args.file);
+  const workflows = await loadWorkflowList(args.workflows);
+  const input = args.input ? await readJson(args.input, 'input') : undefined;
+  const printSteps = createStepPrinter();
+  // Only this workflow's runs are printed; sub-workflow runs show up through their SUBWORKFLOW step
+  let runId = '';
+  const engine = createCliEngine(workflow, workflows, (update) => {
+    if (!runId && !update.parentRun) {
+      runId = update.id;
+      console.log(`▶ ${workflow.name}: run ${update.id}`);
+    }
+    if (update.id === runId) printSteps(update);
+  });
+  if (!reportValidation(engine, workflow)) return EXIT_FAILED;
+
+  // Ctrl+C cancels the run, so in-flight steps are recorded as cancelled before exiting
+  process.once('SIGINT', () => {
+    if (!runId || !cancelRun(runId)) process.exit(130);
+  });
+
+  const timeout = args.timeout || workflow.settings?.timeout;
+  let result = await engine.run(workflow, input, { timeout });
+  // Suspended delays are waited out here; there is no one to approve anything
+  while (result.status === 'waiting') {
+    const resumeAt = nextDelayEnd(result);
+    if (resumeAt === null) break;
+    console.log(`… Waiting until ${new Date(resumeAt).toISOString()} (${describeDuration(Math.max(0, resumeAt - Date.now()))})`);
+    await sleep(Math.max(0, resumeAt - Date.now()));
+    result = await engine.run(workflow, result.input, { timeout, resume: { run: result, inPlace: true } });
+  }
+
+  const summary = `${workflow.name}: ${result.status} in ${result.duration}`;
+  if (result.status === 'success') {
+    console.log(`✓ ${summary}`);
+    return 0;
+  }
+  if (result.status === 'waiting') {
+    console.error(`… ${summary}; waiting for an approval, which cannot be given from the command line.`);
+    return EXIT_WAITING;
+  }
+  console.error(`✗ ${summary}${result.error ? `: ${result.error}` : ''}`);
+  return EXIT_FAILED;
+};
+
+const main = async (): Promise<number> => {
+  try {
+    const args = parseArgs(process.argv.slice(2));
+    return await (args.command === 'validate' ? validate(args) : run(args));
+  } catch (e: any) {
+    if (e instanceof UsageError) {
+      console.error(`${e.message}\n\n${USAGE}`);
+      return EXIT_USAGE;
+    }
+    console.error(e);
+    return EXIT_FAILED;
+  }
+};
+
+main().then(code => process.exit(code));
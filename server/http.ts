@@ -0,0 +1,77 @@
+// Request and response helpers shared by the webhook server and the REST API
+import { IncomingMessage, ServerResponse } from 'http';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// Thrown by handlers to answer with a status code and { error: message }
+export class HttpProblem extends Error {
+  status: number;
+  details?: string[];
+
+  constructor(status: number, message: string, details?: string[]) {
+    super(message);
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export const send = (res: ServerResponse, status: number, body?: Record<string, any>) => {
+  if (body === undefined) {
+    res.writeHead(status);
+    res.end();
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+export const readBody = (req: IncomingMessage): Promise<Buffer> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpProblem(413, `Request body exceeds ${MAX_BODY_BYTES} bytes.`));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+// JSON and form bodies become objects, anything else is passed on as text
+export const parseBody = (raw: Buffer, contentType = ''): any => {
+  const text = raw.toString('utf8');
+  if (!text) return {};
+  if (contentType.includes('application/json')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new HttpProblem(400, 'Request body is not valid JSON.');
+    }
+  }
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(text));
+  }
+  return text;
+};
+
+type Handler = (req: IncomingMessage, res: ServerResponse, url: URL) => Promise<void>;
+
+// Turns HttpProblems into their responses and anything else into a 500
+export const handleErrors = (handler: Handler) => async (req: IncomingMessage, res: ServerResponse) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  try {
+    await handler(req, res, url);
+  } catch (e: any) {
+    if (res.headersSent) return;
+    if (e instanceof HttpProblem) {
+      send(res, e.status, e.details ? { error: e.message, details: e.details } : { error: e.message });
+    } else {
+      console.error(e);
+      send(res, 500, { error: e.message || 'Internal error.' });
+    }
+  }
+};
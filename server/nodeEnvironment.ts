@@ -0,0 +1,93 @@
+// How the Node hosts run workflows: no CORS restrictions or simulated latency, Gemini for AI nodes
+// and scripts in a worker thread that runs the same sandbox source as the app's Web Worker, in a vm context.
+import { Worker } from 'worker_threads';
+import { EngineEnvironment, DEFAULT_ENVIRONMENT, ScriptRunner } from '../lib/workflowEngine';
+import { SCRIPT_WORKER_SOURCE, DEFAULT_SCRIPT_TIMEOUT_MS, SCRIPT_MEMORY_LIMIT_MB, ScriptOutcome } from '../lib/scriptSandbox';
+import { ScriptError } from '../lib/errors';
+import { describeDuration } from '../lib/duration';
+import { performAIAction } from '../services/geminiService';
+
+// Runs the sandbox source in a vm context inside the worker thread. The context has no require and no
+// module loader, so import() is rejected, and the thread itself gets an empty environment. Host
+// functions only reach the context wrapped in functions compiled inside it, and only strings cross
+// in either direction, so scripts cannot reach the host's Function constructor through them.
+const THREAD_SOURCE = `
+'use strict';
+const { parentPort, workerData } = require('worker_threads');
+const vm = require('vm');
+const context = vm.createContext({}, { codeGeneration: { strings: true, wasm: false } });
+const connect = vm.runInContext(\`(function (post, schedule, cancel) {
+  'use strict';
+  globalThis.self = globalThis;
+  self.postMessage = (message) => post(JSON.stringify(message));
+  const timer = (repeat) => (handler, ms, ...args) => schedule(() => handler(...args), ms, repeat);
+  self.setTimeout = timer(false);
+  self.setInterval = timer(true);
+  self.clearTimeout = self.clearInterval = (id) => cancel(id);
+  return (json) => self.onmessage({ data: JSON.parse(json) });
+})\`, context);
+
+const timers = new Map();
+let nextTimer = 1;
+const deliver = connect(
+  (json) => parentPort.postMessage(JSON.parse(String(json))),
+  (callback, ms, repeat) => {
+    const id = nextTimer++;
+    const run = () => {
+      if (!repeat) timers.delete(id);
+      callback();
+    };
+    timers.set(id, (repeat ? setInterval : setTimeout)(run, Number(ms) || 0));
+    return id;
+  },
+  (id) => {
+    clearTimeout(timers.get(id));
+    timers.delete(id);
+  }
+);
+vm.runInContext(workerData, context);
+parentPort.once('message', (json) => deliver(String(json)));
+`;
+
+export const runScriptInWorkerThread: ScriptRunner = (code, input, options = {}) => {
+  const { timeoutMs = DEFAULT_SCRIPT_TIMEOUT_MS, signal } = options;
+  return new Promise<ScriptOutcome>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+
+    const worker = new Worker(THREAD_SOURCE, {
+      eval: true,
+      workerData: SCRIPT_WORKER_SOURCE,
+      env: {},
+      resourceLimits: { maxOldGenerationSizeMb: SCRIPT_MEMORY_LIMIT_MB }
+    });
+    const finish = (settle: () => void) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+      settle();
+    };
+    const onAbort = () => finish(() => reject(signal!.reason));
+    const timer = setTimeout(() => finish(() => reject(
+      new ScriptError(`Script did not finish within ${describeDuration(timeoutMs)} and was stopped.`)
+    )), timeoutMs);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    worker.on('message', (outcome: ScriptOutcome) => finish(() => resolve(outcome)));
+    worker.on('error', (e: any) => finish(() => reject(new ScriptError(e?.code === 'ERR_WORKER_OUT_OF_MEMORY'
+      ? `Script used more than ${SCRIPT_MEMORY_LIMIT_MB} MB of memory and was stopped.`
+      : `Script worker crashed: ${e.message}`))));
+
+    try {
+      worker.postMessage(JSON.stringify({ code, input }));
+    } catch (e: any) {
+      // Input that cannot be serialized, e.g. with circular references
+      finish(() => reject(new ScriptError(`Could not pass the input to the script: ${e.message}`)));
+    }
+  });
+};
+
+export const nodeEnvironment: EngineEnvironment = {
+  ...DEFAULT_ENVIRONMENT,
+  runScript: runScriptInWorkerThread,
+  generateText: performAIAction
+};
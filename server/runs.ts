@@ -0,0 +1,94 @@
+// Starts runs for the local servers: the engine executes in this process and writes every update to
+// the store. Callers answer their request as soon as the run exists; it keeps executing afterwards.
+// Each server also continues the runs it started once they stop waiting.
+import { Workflow, RunLog, RunHost } from '../types';
+import { createEngine, RunOptions, isWaitOver, cancelWaitingRun, CHECKPOINT_INTERVAL_MS } from '../lib/engine';
+import { validateWorkflow } from '../lib/workflowUtils';
+import { ServerStore } from './store';
+import { nodeEnvironment } from './nodeEnvironment';
+
+// Runs started here that are still executing, to wait for them after a cancellation
+const executing = new Map<string, Promise<RunLog>>();
+
+export const getExecutingRun = (runId: string) => executing.get(runId);
+
+// Resolves with the run's first update, or rejects when the run could not start.
+// workflows are the ones SUBWORKFLOW steps may call.
+export const startRun = (
+  store: ServerStore,
+  workflows: Workflow[],
+  workflow: Workflow,
+  input: any,
+  options: RunOptions = {}
+): Promise<RunLog> => new Promise((started, failed) => {
+  let runId = '';
+  const engine = createEngine({
+    ...nodeEnvironment,
+    storage: {
+      getWorkflow: (id) => workflows.find(w => w.id === id),
+      listWorkflows: () => workflows,
+      saveRun: (run) => {
+        store.saveRun(run);
+        if (!runId) {
+          runId = run.id;
+          executing.set(runId, finished);
+          started(run);
+        }
+      }
+    }
+  });
+  // Started a microtask later, so `finished` is assigned before the first update arrives
+  const finished = Promise.resolve().then(() => engine.run(workflow, input, options));
+  finished.then(
+    (run) => console.log(`${run.id}: ${run.status}${run.error ? ` (${run.error})` : ''}`),
+    (e) => {
+      console.error(`${workflow.name}: run failed to start`, e);
+      if (!runId) failed(e);
+    }
+  ).finally(() => executing.delete(runId));
+});
+
+// Waiting runs looked at per pass, newest first
+const MAX_WAITING_RUNS = 200;
+
+const continueReadyRuns = async (store: ServerStore, host: RunHost) => {
+  const ready = (await store.listRuns({ status: 'waiting', limit: MAX_WAITING_RUNS }))
+    .filter(run => run.host === host && isWaitOver(run));
+  if (!ready.length) return;
+
+  const workflows = await store.listWorkflows();
+  for (const run of ready) {
+    const workflow = workflows.find(w => w.id === run.workflowId);
+    const reason = !workflow ? 'The workflow no longer exists, so the run cannot continue.'
+      : !validateWorkflow(workflow.nodes, workflow.edges, { workflowId: workflow.id, workflows }).isValid ? 'The workflow is no longer valid, so the run cannot continue.'
+      : null;
+    if (!workflow || reason) {
+      store.saveRun(cancelWaitingRun(run, reason || ''));
+      continue;
+    }
+    try {
+      await startRun(store, workflows, workflow, run.input ?? run.steps.find(s => !s.parentStepId)?.input, { resume: { run, inPlace: true }, host });
+      console.log(`${run.id}: continuing (${workflow.name})`);
+    } catch (e) {
+      console.error(`${run.id}: could not continue`, e);
+    }
+  }
+};
+
+let passes: Promise<void> = Promise.resolve();
+
+// Continues the waiting runs this server started once a decision was recorded, an approval expired
+// or a delay ended, as the app does for its own runs. Passes run one after another, so a run that
+// became ready is not continued twice.
+export const continueWaitingRuns = (store: ServerStore, host: RunHost): Promise<void> => {
+  passes = passes
+    .then(() => continueReadyRuns(store, host))
+    .catch(e => console.error('Could not check waiting runs', e));
+  return passes;
+};
+
+// Checks for waiting runs that can continue for as long as the server runs
+export const watchWaitingRuns = (store: ServerStore, host: RunHost) => {
+  continueWaitingRuns(store, host);
+  setInterval(() => continueWaitingRuns(store, host), CHECKPOINT_INTERVAL_MS);
+};
@@ -0,0 +1,138 @@
+// Where the local servers (webhooks, REST API) keep workflows and runs: the app's Supabase tables
+// when they are configured, otherwise JSON files in a local data directory.
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Workflow, RunLog } from '../types';
+import { supabase } from '../lib/supabaseClient';
+import { workflowFromRow, workflowToRow, runFromRow, runToRow } from '../lib/dbRows';
+
+export interface ServerStore {
+  kind: string;
+  listWorkflows(): Promise<Workflow[]>;
+  getWorkflow(id: string): Promise<Workflow | undefined>;
+  // Inserts the workflow or replaces the one with its id
+  saveWorkflow(workflow: Workflow): Promise<void>;
+  // Resolves to false when there was no such workflow
+  deleteWorkflow(id: string): Promise<boolean>;
+  // Newest first
+  listRuns(options?: { workflowId?: string; status?: RunLog['status']; limit?: number }): Promise<RunLog[]>;
+  getRun(id: string): Promise<RunLog | undefined>;
+  // Called on every step change; writes are applied in call order
+  saveRun(run: RunLog): void;
+}
+
+const DEFAULT_RUN_LIMIT = 50;
+
+// Runs tasks one after another, so a slow write cannot land after a newer version of the same
+// record and reads see every write queued before them
+const createQueue = () => {
+  let tail: Promise<unknown> = Promise.resolve();
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    const result = tail.then(task);
+    tail = result.catch(() => {});
+    return result;
+  };
+};
+
+const createSupabaseStore = (client: NonNullable<typeof supabase>): ServerStore => {
+  const runQueue = createQueue();
+  const listWorkflows = async () => {
+    const { data, error } = await client.from('workflows').select('*').order('created_at', { ascending: false });
+    if (error) throw new Error(`Could not load workflows: ${error.message}`);
+    return (data || []).map(workflowFromRow);
+  };
+  return {
+    kind: 'supabase',
+    listWorkflows,
+    getWorkflow: async (id) => {
+      const { data, error } = await client.from('workflows').select('*').eq('id', id).maybeSingle();
+      if (error) throw new Error(`Could not load workflow ${id}: ${error.message}`);
+      return data ? workflowFromRow(data) : undefined;
+    },
+    saveWorkflow: async (workflow) => {
+      const { error } = await client.from('workflows').upsert(workflowToRow(workflow));
+      if (error) throw new Error(`Could not save workflow ${workflow.id}: ${error.message}`);
+    },
+    deleteWorkflow: async (id) => {
+      const { data, error } = await client.from('workflows').delete().eq('id', id).select('id');
+      if (error) throw new Error(`Could not delete workflow ${id}: ${error.message}`);
+      return (data || []).length > 0;
+    },
+    listRuns: ({ workflowId, status, limit = DEFAULT_RUN_LIMIT } = {}) => runQueue(async () => {
+      let query = client.from('runs').select('*').order('started_at', { ascending: false }).limit(limit);
+      if (workflowId) query = query.eq('workflow_id', workflowId);
+      if (status) query = query.eq('status', status);
+      const { data, error } = await query;
+      if (error) throw new Error(`Could not load runs: ${error.message}`);
+      const workflows = await listWorkflows();
+      return (data || []).map(row => runFromRow(row, workflows));
+    }),
+    getRun: (id) => runQueue(async () => {
+      const { data, error } = await client.from('runs').select('*').eq('id', id).maybeSingle();
+      if (error) throw new Error(`Could not load run ${id}: ${error.message}`);
+      return data ? runFromRow(data, await listWorkflows()) : undefined;
+    }),
+    saveRun: (run) => {
+      runQueue(async () => {
+        const { error } = await client.from('runs').upsert(runToRow(run));
+        if (error) throw new Error(error.message);
+      }).catch(e => console.error(`Failed to save run ${run.id}`, e));
+    }
+  };
+};
+
+// workflows.json holds the same array the app keeps under 'automator_workflows' in localStorage
+const createFileStore = (dir: string): ServerStore => {
+  const workflowsFile = path.join(dir, 'workflows.json');
+  const runsFile = path.join(dir, 'runs.json');
+  const workflowQueue = createQueue();
+  const runQueue = createQueue();
+  const readJson = async (file: string) => {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (e: any) {
+      if (e.code === 'ENOENT') return [];
+      throw new Error(`Could not read ${file}: ${e.message}`);
+    }
+  };
+  const writeJson = async (file: string, data: any) => {
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(file, JSON.stringify(data, null, 2));
+  };
+  const listWorkflows = (): Promise<Workflow[]> => workflowQueue(() => readJson(workflowsFile));
+  const listAllRuns = (): Promise<RunLog[]> => runQueue(() => readJson(runsFile));
+  return {
+    kind: `files in ${dir}`,
+    listWorkflows,
+    getWorkflow: async (id) => (await listWorkflows()).find(w => w.id === id),
+    saveWorkflow: (workflow) => workflowQueue(async () => {
+      const workflows: Workflow[] = await readJson(workflowsFile);
+      const index = workflows.findIndex(w => w.id === workflow.id);
+      if (index >= 0) workflows[index] = workflow;
+      else workflows.unshift(workflow);
+      await writeJson(workflowsFile, workflows);
+    }),
+    deleteWorkflow: (id) => workflowQueue(async () => {
+      const workflows: Workflow[] = await readJson(workflowsFile);
+      const remaining = workflows.filter(w => w.id !== id);
+      if (remaining.length === workflows.length) return false;
+      await writeJson(workflowsFile, remaining);
+      return true;
+    }),
+    listRuns: async ({ workflowId, status, limit = DEFAULT_RUN_LIMIT } = {}) =>
+      (await listAllRuns()).filter(r => (!workflowId || r.workflowId === workflowId) && (!status || r.status === status)).slice(0, limit),
+    getRun: async (id) => (await listAllRuns()).find(r => r.id === id),
+    saveRun: (run) => {
+      runQueue(async () => {
+        const runs: RunLog[] = await readJson(runsFile);
+        const index = runs.findIndex(r => r.id === run.id);
+        if (index >= 0) runs[index] = run;
+        else runs.unshift(run);
+        await writeJson(runsFile, runs);
+      }).catch(e => console.error(`Failed to save run ${run.id}`, e));
+    }
+  };
+};
+
+export const createServerStore = (dataDir = process.env.AUTOMATOR_DATA_DIR || '.automator'): ServerStore =>
+  supabase ? createSupabaseStore(supabase) : createFileStore(path.resolve(dataDir));
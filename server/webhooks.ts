@@ -0,0 +1,102 @@
+// Local webhook receiver: POST /hooks/<path> starts a run of the active workflow whose webhook trigger
+// listens on <path>. Run with `npm run webhooks`; see the README for configuration.
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { WebhookDelivery, RunLog } from '../types';
+import { validateWorkflow } from '../lib/workflowUtils';
+import {
+  WEBHOOK_PATH_PREFIX, WEBHOOK_SIGNATURE_HEADER, DEFAULT_WEBHOOK_PORT,
+  findWebhookRoute, verifyWebhookSignature, buildWebhookInput
+} from '../lib/webhooks';
+import { createServerStore } from './store';
+import { startRun, watchWaitingRuns } from './runs';
+import { HttpProblem, send, readBody, parseBody, handleErrors } from './http';
+
+// Recorded with the delivery as '[redacted]'
+const SECRET_HEADERS = ['authorization', 'proxy-authorization', 'cookie'];
+
+const recordHeaders = (req: IncomingMessage): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  Object.entries(req.headers).forEach(([name, value]) => {
+    if (value === undefined) return;
+    headers[name] = SECRET_HEADERS.includes(name) ? '[redacted]' : Array.isArray(value) ? value.join(', ') : value;
+  });
+  return headers;
+};
+
+const recordQuery = (params: URLSearchParams): Record<string, string | string[]> => {
+  const query: Record<string, string | string[]> = {};
+  new Set(params.keys()).forEach(key => {
+    const values = params.getAll(key);
+    query[key] = values.length > 1 ? values : values[0];
+  });
+  return query;
+};
+
+const store = createServerStore();
+
+const handleHook = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+  let hookPath: string;
+  try {
+    hookPath = decodeURIComponent(url.pathname.slice(WEBHOOK_PATH_PREFIX.length));
+  } catch {
+    throw new HttpProblem(400, 'Malformed path.');
+  }
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    throw new HttpProblem(405, 'Webhooks only accept POST requests.');
+  }
+
+  const workflows = await store.listWorkflows();
+  const route = findWebhookRoute(workflows, hookPath);
+  if (!route) throw new HttpProblem(404, `No webhook trigger listens on ${url.pathname}.`);
+  const { workflow, node } = route;
+  if (workflow.status !== 'active') throw new HttpProblem(409, `Workflow '${workflow.name}' is not active.`);
+
+  const raw = await readBody(req);
+  const secret = node.config?.secret;
+  if (secret && !(await verifyWebhookSignature(secret, raw, req.headers[WEBHOOK_SIGNATURE_HEADER] as string | undefined))) {
+    throw new HttpProblem(401, `Missing or invalid ${WEBHOOK_SIGNATURE_HEADER} header.`);
+  }
+  const body = parseBody(raw, req.headers['content-type']);
+
+  const validation = validateWorkflow(workflow.nodes, workflow.edges, { workflowId: workflow.id, workflows });
+  if (!validation.isValid) throw new HttpProblem(422, `Workflow '${workflow.name}' is invalid.`, validation.errors);
+
+  const delivery: WebhookDelivery = {
+    id: `dlv-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+    receivedAt: new Date().toISOString(),
+    method: req.method!,
+    path: url.pathname,
+    headers: recordHeaders(req),
+    query: recordQuery(url.searchParams),
+    triggerNodeId: node.id,
+    signature: secret ? 'verified' : 'not-required',
+    remoteAddress: req.socket.remoteAddress
+  };
+
+  // Answer as soon as the run exists; it keeps executing after the response
+  let run: RunLog;
+  try {
+    run = await startRun(store, workflows, workflow, buildWebhookInput(delivery, body), { delivery, host: 'webhooks' });
+  } catch {
+    throw new HttpProblem(500, 'Run failed to start.');
+  }
+  console.log(`${delivery.id}: ${delivery.method} ${delivery.path} started ${run.id} (${workflow.name})`);
+  send(res, 202, { deliveryId: delivery.id, runId: run.id });
+};
+
+const server = createServer(handleErrors(async (req, res, url) => {
+  if (url.pathname === '/health') {
+    send(res, 200, { ok: true, store: store.kind });
+  } else if (url.pathname.startsWith(WEBHOOK_PATH_PREFIX)) {
+    await handleHook(req, res, url);
+  } else {
+    throw new HttpProblem(404, `Not found: ${url.pathname}`);
+  }
+}));
+
+const port = parseInt(process.env.WEBHOOK_PORT || '') || DEFAULT_WEBHOOK_PORT;
+server.listen(port, () => {
+  console.log(`Webhook server listening on http://localhost:${port}${WEBHOOK_PATH_PREFIX}<path> (${store.kind})`);
+  watchWaitingRuns(store, 'webhooks');
+});
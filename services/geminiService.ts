@@ -9,12 +9,17 @@ You are AutomatorOS, an advanced AI automation architect.
 Your goal is to accept natural language requests from users (e.g., "When a new order comes in on Shopify, if value > 100 add to VIP sheet, else send email") 
 and convert them into a structured JSON representation of a workflow.
 
-Supported Services: Gmail, Slack, Shopify, Google Sheets, Notion, GitHub, Stripe, HubSpot, Twitter, Discord, OpenAI, Gemini, System (Delay, Filter).
-Node Types: TRIGGER (starts flow), ACTION (performs task), CONDITION (logic/branching), AI (generative tasks).
+Supported Services: Gmail, Slack, Shopify, Google Sheets, Notion, GitHub, Stripe, HubSpot, Twitter, Discord, OpenAI, Gemini, System (Filter).
+Node Types: TRIGGER (starts flow), ACTION (performs task), CONDITION (logic/branching), SWITCH (multi-way branching on one value), AI (generative tasks), MERGE (joins parallel branches), APPROVAL (pauses until a person approves or rejects), DELAY (waits before continuing).
 
 Crucial Rules for Branching:
 - If the user implies a choice (e.g., "if X then Y else Z"), use a CONDITION node.
 - Edges coming OUT of a CONDITION node MUST have a label: "true" or "false".
+- If the choice has more than two outcomes (e.g., "route by ticket priority"), use a SWITCH node with config 'variable' and comma-separated 'cases'. Each outgoing edge is labeled with one case value, plus an optional "default" edge for everything else.
+- If a person must sign off (e.g., "manager approves expenses"), use an APPROVAL node with config 'message' and optionally 'expiresAfter' (e.g. '2d'). Label its outgoing edges "approved", "rejected" or "expired".
+- To wait (e.g., "after 2 days", "the next business morning"), use a DELAY node with config 'duration' (e.g. '2d'), or 'mode': 'until' and an 'until' timestamp.
+- If the workflow runs on a timetable (e.g., "every Friday at 9am", "hourly"), use a TRIGGER node with service "schedule" and config 'cron' (a five-field cron expression, e.g. '0 9 * * 5') and optionally 'timezone' (e.g. 'Europe/Berlin').
+- A node with several outgoing edges runs all of them in parallel. To continue only after parallel branches finish, connect them into a MERGE node.
 - Ensure the workflow graph is connected.
 
 Output Format: JSON only.
@@ -39,13 +44,13 @@ export const generateWorkflowFromPrompt = async (userPrompt: string): Promise<Pr
                 type: Type.OBJECT,
                 properties: {
                   id: { type: Type.STRING },
-                  type: { type: Type.STRING, enum: [NodeType.TRIGGER, NodeType.ACTION, NodeType.CONDITION, NodeType.AI] },
+                  type: { type: Type.STRING, enum: [NodeType.TRIGGER, NodeType.ACTION, NodeType.CONDITION, NodeType.SWITCH, NodeType.AI, NodeType.MERGE, NodeType.APPROVAL, NodeType.DELAY] },
                   service: { type: Type.STRING },
                   label: { type: Type.STRING, description: "Short label for the node, e.g., 'Check Value > 100'" },
                   description: { type: Type.STRING },
                   config: { 
                     type: Type.OBJECT, 
-                    description: "Key-value pairs for basic config. For CONDITIONS, use 'variable', 'operator', 'threshold'.",
+                    description: "Key-value pairs for basic config. For CONDITIONS, use 'variable', 'operator', 'threshold'. For SWITCH, use 'variable' and comma-separated 'cases'.",
                     properties: {
                          anyKey: { type: Type.STRING }
                     }
@@ -62,7 +67,7 @@ export const generateWorkflowFromPrompt = async (userPrompt: string): Promise<Pr
                   id: { type: Type.STRING },
                   source: { type: Type.STRING },
                   target: { type: Type.STRING },
-                  label: { type: Type.STRING, description: "Label for the edge, critical for branches (use 'true' or 'false')" }
+                  label: { type: Type.STRING, description: "Label for the edge, critical for branches (use 'true' or 'false', a SWITCH case value or 'default', or an APPROVAL outcome)" }
                 },
                 required: ["id", "source", "target"]
               }
@@ -105,7 +110,7 @@ export const explainWorkflow = async (nodes: WorkflowNode[], edges: WorkflowEdge
   try {
      // Minimize token usage by stripping heavy config
      const context = {
-         nodes: nodes.map(n => ({ id: n.id, label: n.label, service: n.service, type: n.type, config: n.type === NodeType.CONDITION ? n.config : undefined })),
+         nodes: nodes.map(n => ({ id: n.id, label: n.label, service: n.service, type: n.type, config: n.type === NodeType.CONDITION || n.type === NodeType.SWITCH ? n.config : undefined })),
          edges: edges.map(e => ({ source: e.source, target: e.target, label: e.label }))
      };
 
@@ -1,8 +1,10 @@
 
 import React, { createContext, useContext, useEffect, useState } from 'react';
-import { Workflow, RunLog, Integration, UserProfile, AuditLogEntry, WorkflowVersion } from '../types';
+import { Workflow, RunLog, Integration, UserProfile, AuditLogEntry } from '../types';
 import { MOCK_WORKFLOWS, MOCK_RUNS, INTEGRATIONS } from '../constants';
 import { supabase } from '../lib/supabaseClient';
+import { workflowFromRow, runFromRow, runToRow } from '../lib/dbRows';
+import { withVersionSnapshot } from '../lib/workflowUtils';
 
 interface AutomatorContextType {
   workflows: Workflow[];
@@ -15,12 +17,16 @@ interface AutomatorContextType {
   deleteWorkflow: (id: string) => void;
   addRun: (run: RunLog) => void;
   updateRun: (run: RunLog) => void;
+  claimRun: (run: RunLog) => Promise<RunLog | null>;
   toggleIntegration: (id: string) => void;
   updateProfile: (profile: Partial<UserProfile>) => void;
   resetData: () => void;
   isLoading: boolean;
 }
 
+// How long a tab waits after claiming a run in localStorage before checking no other tab claimed it too
+const CLAIM_SETTLE_MS = 250;
+
 const AutomatorContext = createContext<AutomatorContextType | undefined>(undefined);
 
 export const AutomatorProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
@@ -72,17 +78,7 @@ export const AutomatorProvider: React.FC<{ children: React.ReactNode }> = ({ chi
             .order('created_at', { ascending: false });
 
           if (!wfError && wfData) {
-            const mappedWorkflows: Workflow[] = wfData.map((row: any) => ({
-              id: row.id,
-              name: row.name,
-              description: row.description || '',
-              status: row.is_active ? 'active' : 'paused',
-              createdAt: row.created_at,
-              nodes: row.definition?.nodes || [],
-              edges: row.definition?.edges || [],
-              history: row.definition?.history || [],
-              stats: { runs: 0, successRate: 0 }
-            }));
+            const mappedWorkflows: Workflow[] = wfData.map(workflowFromRow);
             setWorkflows(mappedWorkflows);
           } else {
              setWorkflows(loadLocalWorkflows());
@@ -96,7 +92,7 @@ export const AutomatorProvider: React.FC<{ children: React.ReactNode }> = ({ chi
             .limit(50);
             
           if (!runError && runData) {
-              const mappedRuns: RunLog[] = runData.map((row: any) => mapRunFromDB(row, workflows));
+              const mappedRuns: RunLog[] = runData.map((row: any) => runFromRow(row, workflows));
               setRuns(mappedRuns);
           } else {
               setRuns(loadLocalRuns());
@@ -110,18 +106,19 @@ export const AutomatorProvider: React.FC<{ children: React.ReactNode }> = ({ chi
               (payload) => {
                 // Handle new runs (INSERT)
                 if (payload.eventType === 'INSERT') {
-                    const newRun = mapRunFromDB(payload.new, workflows);
+                    const newRun = runFromRow(payload.new, workflows);
                     setRuns(prev => [newRun, ...prev]);
                 }
                 // Handle run updates (UPDATE) - e.g. steps completing
                 if (payload.eventType === 'UPDATE') {
-                    const updatedRun = mapRunFromDB(payload.new, workflows);
+                    const updatedRun = runFromRow(payload.new, workflows);
                     setRuns(prev => prev.map(r => r.id === updatedRun.id ? updatedRun : r));
                 }
               }
             )
             .subscribe();
 
+          setIsLoading(false);
           return () => {
             supabase.removeChannel(channel);
           };
@@ -142,20 +139,17 @@ export const AutomatorProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     fetchData();
   }, []);
 
-  // Helper to map DB row to RunLog
-  const mapRunFromDB = (row: any, currentWorkflows: Workflow[]): RunLog => {
-      // Try to find name in current workflows, fallback to what's in DB or ID
-      const wf = currentWorkflows.find(w => w.id === row.workflow_id);
-      return {
-          id: row.id,
-          workflowId: row.workflow_id,
-          workflowName: wf?.name || 'Unknown Workflow', 
-          status: row.status,
-          startedAt: row.started_at,
-          duration: row.duration || '0s',
-          steps: row.logs || []
-      };
-  };
+  // Without Supabase, runs executing in other tabs only reach this one through localStorage.
+  // Keeping them in sync stops a run that is still progressing elsewhere from looking orphaned.
+  useEffect(() => {
+    if (supabase) return;
+    const onStorage = (e: StorageEvent) => {
+      if (e.key !== 'automator_runs' || !e.newValue) return;
+      try { setRuns(JSON.parse(e.newValue)); } catch {}
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }, []);
 
   // Helpers for LocalStorage Fallback
   const loadLocalWorkflows = () => {
@@ -182,7 +176,7 @@ export const AutomatorProvider: React.FC<{ children: React.ReactNode }> = ({ chi
             id: wf.id,
             name: wf.name,
             description: wf.description,
-            definition: { nodes: wf.nodes, edges: wf.edges, history: [] },
+            definition: { nodes: wf.nodes, edges: wf.edges, history: [], settings: wf.settings },
             is_active: wf.status === 'active',
             created_at: wf.createdAt
         });
@@ -192,23 +186,8 @@ export const AutomatorProvider: React.FC<{ children: React.ReactNode }> = ({ chi
   };
   
   const updateWorkflow = async (wf: Workflow) => {
-    // 1. Find existing to create snapshot
-    const existing = workflows.find(w => w.id === wf.id);
-    let newHistory = existing?.history || [];
-    
-    if (existing) {
-        const version: WorkflowVersion = {
-            id: `v-${Date.now()}`,
-            versionNumber: (newHistory.length) + 1,
-            createdAt: new Date().toISOString(),
-            nodes: existing.nodes,
-            edges: existing.edges,
-            name: existing.name
-        };
-        newHistory = [version, ...newHistory].slice(0, 10); // Keep last 10 versions
-    }
-
-    const updatedWf = { ...wf, history: newHistory };
+    const updatedWf = withVersionSnapshot(workflows.find(w => w.id === wf.id), wf);
+    const newHistory = updatedWf.history || [];
     setWorkflows(prev => prev.map(w => w.id === wf.id ? updatedWf : w));
     
     logAction('WORKFLOW_UPDATED', wf.id, wf.name, `Version ${newHistory.length + 1}`);
@@ -217,7 +196,7 @@ export const AutomatorProvider: React.FC<{ children: React.ReactNode }> = ({ chi
          await supabase.from('workflows').update({
             name: wf.name,
             description: wf.description,
-            definition: { nodes: wf.nodes, edges: wf.edges, history: newHistory },
+            definition: { nodes: wf.nodes, edges: wf.edges, history: newHistory, settings: wf.settings },
             is_active: wf.status === 'active'
         }).eq('id', wf.id);
     } else {
@@ -264,14 +243,7 @@ export const AutomatorProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     });
 
     if (supabase) {
-        await supabase.from('runs').upsert({
-            id: run.id,
-            workflow_id: run.workflowId,
-            status: run.status,
-            logs: run.steps,
-            duration: run.duration,
-            completed_at: run.status !== 'running' ? new Date().toISOString() : null
-        });
+        await supabase.from('runs').upsert(runToRow(run));
     } else {
         // Local persist
         const saved = localStorage.getItem('automator_runs');
@@ -283,6 +255,36 @@ export const AutomatorProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     }
   };
 
+  // Takes a waiting or orphaned run for this tab before it is continued, so that only one open tab
+  // continues it. The claim only succeeds while the stored run is still the one this tab saw (same
+  // status and checkpoint); it marks the run 'running' with a fresh checkpoint. Resolves with the
+  // claimed run, or null when another tab got there first.
+  const claimRun = async (run: RunLog): Promise<RunLog | null> => {
+    const claimed: RunLog = { ...run, status: 'running', checkpointAt: new Date().toISOString() };
+
+    if (supabase) {
+        let query = supabase.from('runs')
+            .update({ status: claimed.status, checkpoint_at: claimed.checkpointAt })
+            .eq('id', run.id)
+            .eq('status', run.status);
+        query = run.checkpointAt ? query.eq('checkpoint_at', run.checkpointAt) : query.is('checkpoint_at', null);
+        const { data, error } = await query.select('id');
+        if (error || !data?.length) return null;
+    } else {
+        // localStorage has no compare-and-set: write the claim, then check it is still there once
+        // other tabs had the chance to write theirs
+        const saved: RunLog[] = loadLocalRuns();
+        const stored = saved.find(r => r.id === run.id);
+        if (!stored || stored.status !== run.status || stored.checkpointAt !== run.checkpointAt) return null;
+        localStorage.setItem('automator_runs', JSON.stringify(saved.map(r => r.id === run.id ? claimed : r)));
+        await new Promise(resolve => setTimeout(resolve, CLAIM_SETTLE_MS));
+        if ((loadLocalRuns() as RunLog[]).find(r => r.id === run.id)?.checkpointAt !== claimed.checkpointAt) return null;
+    }
+
+    setRuns(prev => prev.map(r => r.id === run.id ? claimed : r));
+    return claimed;
+  };
+
   const toggleIntegration = (id: string) => {
     setIntegrations(prev => prev.map(i => i.id === id ? { ...i, connected: !i.connected } : i));
     const integ = integrations.find(i => i.id === id);
@@ -313,7 +315,7 @@ export const AutomatorProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     <AutomatorContext.Provider value={{
       workflows, runs, integrations, profile, auditLogs,
       addWorkflow, updateWorkflow, deleteWorkflow,
-      addRun, updateRun,
+      addRun, updateRun, claimRun,
       toggleIntegration, updateProfile, resetData,
       isLoading
     }}>
@@ -6,15 +6,98 @@ export enum NodeType {
   CONDITION = 'CONDITION',
   AI = 'AI',
   SCRIPT = 'SCRIPT',
+  MERGE = 'MERGE',
+  FOREACH = 'FOREACH',
+  SWITCH = 'SWITCH',
+  SUBWORKFLOW = 'SUBWORKFLOW',
+  APPROVAL = 'APPROVAL',
+  DELAY = 'DELAY',
 }
 
+// MERGE node join behaviour
+export type MergeMode = 'wait-all' | 'wait-any' | 'first-n';
+export type MergeStrategy = 'combine' | 'prefer-first' | 'deep' | 'by-branch' | 'append';
+
+// What happens when a node throws (after retries)
+export type ErrorPolicyMode = 'fail' | 'continue' | 'route' | 'fallback';
+
+export interface ErrorPolicy {
+  mode: ErrorPolicyMode;
+  fallbackOutput?: Record<string, any>; // Used as the node output when mode is 'fallback'
+}
+
+// Temporal-style activity retry policy. Intervals are duration strings such as '1s' or '2m'.
+export interface RetryPolicy {
+  maximumAttempts: number; // Total attempts including the first one
+  initialInterval: string;
+  backoffCoefficient: number;
+  maximumInterval?: string;
+  nonRetryableErrorTypes?: string[]; // Error names (e.g. 'ScriptError') that fail immediately
+}
+
+// CONDITION node rules, stored in config.conditions. Groups nest to build AND/OR trees.
+export type ConditionOperator =
+  | 'equals' | 'not_equals'
+  | 'gt' | 'gte' | 'lt' | 'lte'
+  | 'contains' | 'not_contains' | 'starts_with' | 'ends_with' | 'matches'
+  | 'in' | 'not_in'
+  | 'is_empty' | 'is_not_empty' | 'exists' | 'not_exists'
+  | 'before' | 'after';
+
+export interface ConditionRule {
+  id: string;
+  variable: string; // Path into the input, e.g. 'sentiment' or 'steps.fetch.data.status'
+  operator: ConditionOperator;
+  value?: string; // May contain {{ }} expressions; comma-separated for 'in' / 'not_in'
+}
+
+export interface ConditionGroup {
+  id: string;
+  combinator: 'and' | 'or';
+  rules: (ConditionRule | ConditionGroup)[];
+}
+
+// How a rule treats a variable that is not in the input (exists / is_empty rules decide for themselves)
+export type MissingVariableMode = 'false' | 'error';
+
+// SCRIPT nodes store their source in config.code. TypeScript sources also keep the JavaScript
+// compiled on save in config.compiledCode, which is what the engine runs.
+export type ScriptLanguage = 'javascript' | 'typescript';
+
+// Fixture for a SCRIPT node's test table, stored in config.tests. Both sides are JSON text.
+export interface ScriptTestCase {
+  id: string;
+  name: string;
+  input: string;
+  expected: string; // Fields the script output must contain; other fields are ignored
+}
+
+// DELAY nodes wait for config.duration ('for') or until the timestamp in config.until ('until').
+// With config.businessHours the wait is extended to the next moment inside the window.
+export type DelayMode = 'for' | 'until';
+
+export interface BusinessHours {
+  start: string; // 'HH:MM', inclusive
+  end: string; // 'HH:MM', exclusive
+  days?: number[]; // 0 = Sunday; Monday to Friday when omitted
+  timezone?: string; // IANA zone, e.g. 'Europe/Berlin'; the browser's zone when omitted
+}
+
+// Schedule triggers (service 'schedule') fire on config.cron in config.timezone. config.catchUp decides
+// what happens to fire times missed while no tab was open: run none, only the latest, or all of them.
+export type ScheduleCatchUp = 'skip' | 'latest' | 'all';
+
 export interface WorkflowNode {
   id: string;
   type: NodeType;
   service: string; // e.g., 'gmail', 'slack', 'shopify', 'system', 'script'
+  operation?: string; // Trigger or action of the service's connector; defaults to its first one
   label: string;
   description?: string;
   config: Record<string, any>;
+  onError?: ErrorPolicy; // Defaults to failing the run
+  retry?: RetryPolicy; // Defaults to DEFAULT_RETRY_POLICY
+  timeout?: string; // Start-to-close timeout for each attempt, e.g. '30s'
   x: number; // For visualization
   y: number; // For visualization
 }
@@ -35,6 +118,11 @@ export interface WorkflowVersion {
   name: string;
 }
 
+export interface WorkflowSettings {
+  timeout?: string; // Overall run timeout, e.g. '10m'
+  recovery?: 'resume' | 'interrupt'; // What happens to runs orphaned by a closed tab (default: resume)
+}
+
 export interface Workflow {
   id: string;
   name: string;
@@ -49,29 +137,95 @@ export interface Workflow {
     successRate: number;
   };
   history?: WorkflowVersion[];
+  settings?: WorkflowSettings;
 }
 
 export interface RunStep {
   id: string;
   nodeId: string;
   nodeLabel: string;
-  status: 'success' | 'failed' | 'pending';
+  status: 'success' | 'failed' | 'pending' | 'cancelled' | 'waiting';
   startTime: string;
   endTime?: string;
   duration?: string;
   input: any;
   output: any;
+  produced?: any; // What the step added to the context, i.e. its own output; replayed when the step is reused
   logs: string[]; // Mocking Temporal event history lines
+  branch?: string; // Parallel branch path, e.g. "1.2" = second fan-out of the first root
+  parentStepId?: string; // FOREACH step that ran this step as part of its loop body
+  iteration?: number; // Zero-based loop iteration, set together with parentStepId
+  reusedFrom?: string; // Run whose recorded output this step reused instead of executing
+  handledBy?: ErrorPolicyMode; // Set on failed steps whose error policy let the run go on
+  childRunId?: string; // Run started by a SUBWORKFLOW step
+  waitingFor?: RunWait; // Set while the step is suspended, kept once it resumes
+  signal?: RunSignal; // Decision that resumed a waiting APPROVAL step
+}
+
+// A step suspended until a signal arrives, it expires, or its delay ends
+export interface RunWait {
+  kind: 'approval' | 'delay';
+  since: string; // When the step started waiting; expiry counts from here across resumes
+  expiresAt?: string; // Approvals: after this the 'expired' path is taken
+  message?: string; // Approvals: what the approver is asked, with templates resolved
+  resumeAt?: string; // Delays: when the step completes
+}
+
+export type ApprovalDecision = 'approved' | 'rejected';
+
+export interface RunSignal {
+  decision: ApprovalDecision;
+  comment?: string;
+  actor?: string; // Who decided, e.g. an email address
+  receivedAt: string;
 }
 
 export interface RunLog {
   id: string;
   workflowId: string;
   workflowName: string;
-  status: 'success' | 'failed' | 'running';
+  status: 'success' | 'failed' | 'running' | 'cancelled' | 'interrupted' | 'waiting';
   startedAt: string;
   duration: string;
   steps: RunStep[];
+  error?: string; // Why the run ended early (timeout, cancellation, interruption)
+  input?: any; // Trigger payload, kept so an interrupted run can be resumed
+  checkpointAt?: string; // Last time the executing tab persisted progress
+  resumedFrom?: RunResumeLink; // Set when this run retried an earlier run from one of its steps
+  parentRun?: RunParentLink; // Set when a SUBWORKFLOW step of another run started this run
+  output?: any; // Final context of a successful run: the merged outputs of the nodes it ended on
+  delivery?: WebhookDelivery; // Set when an HTTP request to a webhook trigger started this run
+  host?: RunHost; // Server that started the run and continues it after a wait; unset for runs of the app
+}
+
+// The local servers that execute runs (see server/runs.ts)
+export type RunHost = 'webhooks' | 'api';
+
+// The request that started a webhook run. The body itself is part of the run input.
+export interface WebhookDelivery {
+  id: string;
+  receivedAt: string;
+  method: string;
+  path: string;
+  headers: Record<string, string>;
+  query: Record<string, string | string[]>;
+  triggerNodeId: string;
+  signature: 'verified' | 'not-required';
+  remoteAddress?: string;
+}
+
+export interface RunParentLink {
+  runId: string;
+  stepId: string;
+  nodeLabel: string;
+  workflowName: string;
+  callChain: string[]; // Workflow ids from the outermost run down to the parent, for recursion checks
+}
+
+export interface RunResumeLink {
+  runId: string;
+  nodeId: string;
+  nodeLabel: string;
 }
 
 export interface Integration {
@@ -98,6 +252,7 @@ export interface PromptResponse {
   nodes: WorkflowNode[];
   edges: WorkflowEdge[];
   explanation: string;
+  settings?: WorkflowSettings;
 }
 
 export interface UserProfile {